@@ -5,6 +5,9 @@ const nextConfig: NextConfig = {
 	devIndicators: false,
 	reactStrictMode: false,
 	reactCompiler: true,
+	env: {
+		BUILD_TIME: String(Date.now())
+	},
 	pageExtensions: ['ts', 'tsx', 'js', 'jsx', 'md', 'mdx'],
 	typescript: {
 		ignoreBuildErrors: true
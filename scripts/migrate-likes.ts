@@ -0,0 +1,67 @@
+// Apply pending migrations of the likes database, run before deploying
+//   pnpm migrate            apply pending migrations
+//   pnpm migrate --status   list applied and pending versions
+//   pnpm migrate --purge    also drop like events older than EVENT_RETENTION_DAYS (default 30), e.g. from cron
+//   pnpm migrate --sql      print every migration as sqlite SQL, for `wrangler d1 execute --file`
+// LIKE_STORE and LIKE_DB_* come from the environment, .env.local or .env
+
+import fs from 'fs'
+import path from 'path'
+import { getEventRetentionDays } from '../src/lib/event-retention'
+import { openLikeBackend } from '../src/lib/like-store'
+import { LIKE_MIGRATIONS } from '../src/lib/like-store/migrations'
+import { createMigrationsTableStatements, getMigrationStatus, runMigrations } from '../src/lib/like-store/migrate'
+
+const ROOT = path.join(__dirname, '..')
+
+function loadEnvFiles() {
+	for (const file of ['.env.local', '.env']) {
+		const full = path.join(ROOT, file)
+		// loadEnvFile keeps variables that are already set
+		if (fs.existsSync(full)) process.loadEnvFile(full)
+	}
+}
+
+function printSql() {
+	console.log(`${createMigrationsTableStatements('sqlite').join('\n')}\n`)
+	for (const migration of LIKE_MIGRATIONS) {
+		console.log(`-- ${migration.version} ${migration.name}`)
+		for (const statement of migration.up('sqlite')) console.log(statement)
+		console.log(`INSERT OR IGNORE INTO schema_migrations (version, name) VALUES (${migration.version}, '${migration.name}');\n`)
+	}
+}
+
+async function main() {
+	const args = process.argv.slice(2)
+	if (args.includes('--sql')) return printSql()
+
+	loadEnvFiles()
+	if ((process.env.LIKE_STORE || '').toLowerCase() === 'd1') {
+		throw new Error('D1 is only reachable from the worker, use --sql with `wrangler d1 execute`, or let the worker migrate on its first request')
+	}
+
+	const { kind, dialect, execute, store } = await openLikeBackend()
+
+	if (args.includes('--status')) {
+		const { applied, pending } = await getMigrationStatus(execute, dialect, LIKE_MIGRATIONS)
+		console.log(`[${kind}] applied: ${applied.join(', ') || 'none'}`)
+		console.log(`[${kind}] pending: ${pending.map(migration => `${migration.version} ${migration.name}`).join(', ') || 'none'}`)
+		return
+	}
+
+	const applied = await runMigrations(execute, dialect, LIKE_MIGRATIONS)
+	if (!applied.length) console.log(`[${kind}] up to date`)
+	for (const migration of applied) console.log(`[${kind}] applied ${migration.version} ${migration.name}`)
+
+	if (args.includes('--purge')) {
+		const days = getEventRetentionDays()
+		console.log(`[${kind}] purged ${await store.purgeEvents(days)} like events older than ${days} days`)
+	}
+}
+
+main()
+	.then(() => process.exit(0))
+	.catch(err => {
+		console.error('Migration failed:', err)
+		process.exit(1)
+	})
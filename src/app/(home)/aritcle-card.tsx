@@ -1,6 +1,8 @@
 import Card from '@/components/card'
 import { useCenterStore } from '@/hooks/use-center'
-import { useLatestBlog } from '@/hooks/use-blog-index'
+import { useBlogIndex, useLatestBlog } from '@/hooks/use-blog-index'
+import { useReadArticles } from '@/hooks/use-read-articles'
+import { usePopularPosts } from '@/hooks/use-post-views'
 import { useConfigStore } from './stores/config-store'
 import { CARD_SPACING } from '@/consts'
 import dayjs from 'dayjs'
@@ -11,6 +13,14 @@ export default function ArticleCard() {
 	const center = useCenterStore()
 	const { cardStyles } = useConfigStore()
 	const { blog, loading } = useLatestBlog()
+	const { items } = useBlogIndex()
+	// re-render when reading progress changes
+	useReadArticles(state => state.readArticles)
+	const continueRecord = useReadArticles.getState().getContinueReading()
+	// only offer posts that are still listed
+	const continueBlog = continueRecord ? items.find(item => item.slug === continueRecord.slug) : undefined
+	const { items: popular } = usePopularPosts('week', 5)
+	const popularBlog = popular.map(({ slug }) => items.find(item => item.slug === slug)).find(item => item && item.slug !== blog?.slug)
 	const styles = cardStyles.articleCard
 	const hiCardStyles = cardStyles.hiCard
 	const socialButtonsStyles = cardStyles.socialButtons
@@ -21,7 +31,25 @@ export default function ArticleCard() {
 	return (
 		<HomeDraggableLayer cardKey='articleCard' x={x} y={y} width={styles.width} height={styles.height}>
 			<Card order={styles.order} width={styles.width} height={styles.height} x={x} y={y} className='space-y-2 max-sm:static'>
-				<h2 className='text-secondary text-sm'>最新文章</h2>
+				<div className='flex items-center justify-between gap-3'>
+					<h2 className='text-secondary shrink-0 text-sm'>最新文章</h2>
+					{continueRecord && continueBlog && (
+						<Link
+							href={`/blog/${continueBlog.slug}`}
+							title={`继续阅读：${continueBlog.title || continueBlog.slug}`}
+							className='text-brand min-w-0 truncate text-xs transition-opacity hover:opacity-80'>
+							继续阅读 {continueBlog.title || continueBlog.slug} · {Math.round(continueRecord.progress * 100)}%
+						</Link>
+					)}
+					{!(continueRecord && continueBlog) && popularBlog && (
+						<Link
+							href={`/blog/${popularBlog.slug}`}
+							title={`本周热门：${popularBlog.title || popularBlog.slug}`}
+							className='text-secondary hover:text-brand min-w-0 truncate text-xs transition-colors'>
+							本周热门 {popularBlog.title || popularBlog.slug}
+						</Link>
+					)}
+				</div>
 
 				{loading ? (
 					<div className='flex h-[60px] items-center justify-center'>
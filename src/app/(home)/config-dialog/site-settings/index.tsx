@@ -92,6 +92,16 @@ export function SiteSettings({
 					/>
 					<span className='text-sm font-medium'>隐藏编辑按钮（编辑快捷键 ctrl/cmd + ,）</span>
 				</label>
+
+				<label className='flex items-center gap-2'>
+					<input
+						type='checkbox'
+						checked={formData.feedFullContent ?? false}
+						onChange={e => setFormData({ ...formData, feedFullContent: e.target.checked })}
+						className='accent-brand h-4 w-4 rounded'
+					/>
+					<span className='text-sm font-medium'>订阅源输出全文</span>
+				</label>
 			</div>
 			<div className='flex gap-3'>
 				<label className='flex items-center gap-2'>
@@ -1,8 +1,7 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, type TreeItem } from '@/lib/github-client'
+import { commitChangeset, createChangeset } from '@/lib/github-client'
 import { getAuthToken } from '@/lib/auth'
 import { GITHUB_CONFIG } from '@/consts'
 import { toast } from 'sonner'
-import { fileToBase64NoPrefix } from '@/lib/file-utils'
 import type { SiteContent, CardStyles } from '../stores/config-store'
 import type { FileItem, ArtImageUploads, SocialButtonImageUploads, BackgroundImageUploads } from '../config-dialog/site-settings'
 
@@ -22,40 +21,22 @@ export async function pushSiteContent(
 ): Promise<void> {
 	const token = await getAuthToken()
 
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
-
 	const commitMessage = `更新站点配置`
 
 	toast.info('正在准备文件...')
 
-	const treeItems: TreeItem[] = []
+	const changeset = createChangeset()
 
 	// Handle favicon upload
 	if (faviconItem?.type === 'file') {
 		toast.info('正在上传 Favicon...')
-		const contentBase64 = await fileToBase64NoPrefix(faviconItem.file)
-		const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-		treeItems.push({
-			path: 'public/favicon.png',
-			mode: '100644',
-			type: 'blob',
-			sha: blobData.sha
-		})
+		changeset.writeBinary('public/favicon.png', faviconItem.file)
 	}
 
 	// Handle avatar upload
 	if (avatarItem?.type === 'file') {
 		toast.info('正在上传 Avatar...')
-		const contentBase64 = await fileToBase64NoPrefix(avatarItem.file)
-		const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-		treeItems.push({
-			path: 'public/images/avatar.png',
-			mode: '100644',
-			type: 'blob',
-			sha: blobData.sha
-		})
+		changeset.writeBinary('public/images/avatar.png', avatarItem.file)
 	}
 
 	// Handle art images upload
@@ -72,14 +53,7 @@ export async function pushSiteContent(
 			if (!path) continue
 
 			toast.info(`正在上传 Art 图片 ${id}...`)
-			const contentBase64 = await fileToBase64NoPrefix(item.file)
-			const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: blobData.sha
-			})
+			changeset.writeBinary(path, item.file)
 		}
 	}
 
@@ -88,12 +62,7 @@ export async function pushSiteContent(
 		for (const art of removedArtImages) {
 			const normalizedUrlPath = art.url.startsWith('/') ? art.url : `/${art.url}`
 			const path = `public${normalizedUrlPath}`
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: null
-			})
+			changeset.deleteFile(path)
 		}
 	}
 
@@ -113,14 +82,7 @@ export async function pushSiteContent(
 			if (!path) continue
 
 			toast.info(`正在上传背景图片 ${id}...`)
-			const contentBase64 = await fileToBase64NoPrefix(item.file)
-			const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: blobData.sha
-			})
+			changeset.writeBinary(path, item.file)
 		}
 	}
 
@@ -132,12 +94,7 @@ export async function pushSiteContent(
 
 			const normalizedUrlPath = bg.url.startsWith('/') ? bg.url : `/${bg.url}`
 			const path = `public${normalizedUrlPath}`
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: null
-			})
+			changeset.deleteFile(path)
 		}
 	}
 
@@ -157,45 +114,19 @@ export async function pushSiteContent(
 			if (!path) continue
 
 			toast.info(`正在上传社交按钮图片 ${buttonId}...`)
-			const contentBase64 = await fileToBase64NoPrefix(item.file)
-			const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: blobData.sha
-			})
+			changeset.writeBinary(path, item.file)
 		}
 	}
 
 	// Handle site content JSON
 	const siteContentJson = JSON.stringify(siteContent, null, '\t')
-	const siteContentBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(siteContentJson), 'base64')
-	treeItems.push({
-		path: 'src/config/site-content.json',
-		mode: '100644',
-		type: 'blob',
-		sha: siteContentBlob.sha
-	})
+	changeset.writeText('src/config/site-content.json', siteContentJson)
 
 	// Handle card styles JSON
 	const cardStylesJson = JSON.stringify(cardStyles, null, '\t')
-	const cardStylesBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(cardStylesJson), 'base64')
-	treeItems.push({
-		path: 'src/config/card-styles.json',
-		mode: '100644',
-		type: 'blob',
-		sha: cardStylesBlob.sha
-	})
-
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	changeset.writeText('src/config/card-styles.json', cardStylesJson)
+
+	await commitChangeset(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, GITHUB_CONFIG.BRANCH, changeset, commitMessage)
 
 	toast.success('保存成功！')
 }
@@ -8,6 +8,7 @@ import { pushAbout, type AboutData } from './services/push-about'
 import { useAuthStore } from '@/hooks/use-auth'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 import LikeButton from '@/components/like-button'
+import { ReactionBar } from '@/components/reaction-bar'
 import GithubSVG from '@/svgs/github.svg'
 import initialData from './list.json'
 
@@ -181,6 +182,8 @@ export default function Page() {
 
 						<LikeButton slug='open-source' delay={0} />
 					</div>
+
+					<ReactionBar slug='open-source' className='mt-6' />
 				</div>
 			</div>
 
@@ -0,0 +1,180 @@
+import type { NextRequest } from 'next/server'
+
+import type { ResultSetHeader, RowDataPacket } from 'mysql2/promise'
+
+import { parseSlug, RATE_LIMIT_STATUS, respond } from '@/lib/api-route'
+import { ensureCommentsTable, getDbPool, type CommentRow } from '@/lib/db'
+import { isOwnerRequest } from '@/lib/owner-auth'
+import { createPurgeSchedule } from '@/lib/event-retention'
+import { resolveVisitor } from '@/lib/visitor-id'
+import type { BlogComment } from '@/app/blog/types'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_AUTHOR_LENGTH = 32
+const MAX_CONTENT_LENGTH = 2000
+// per visitor: one comment every 30 seconds, at most 20 a day
+const MIN_INTERVAL_SECONDS = 30
+const MAX_PER_DAY = 20
+const MAX_QUEUE_LENGTH = 200
+
+const parseId = (req: NextRequest): number | null => {
+	const id = Number(req.nextUrl.searchParams.get('id'))
+	return Number.isSafeInteger(id) && id > 0 ? id : null
+}
+
+const toComment = (row: CommentRow): BlogComment => ({
+	id: row.id,
+	slug: row.slug,
+	parentId: row.parent_id,
+	author: row.author,
+	content: row.content,
+	status: row.status,
+	isOwner: !!row.is_owner,
+	createdAt: new Date(row.created_at).toISOString()
+})
+
+const COMMENT_COLUMNS = 'id, slug, parent_id, author, content, status, is_owner, created_at'
+
+// limits only look at today, so older visitor hashes are cleared and comments cannot be linked to each other later
+const purgeCommentVisitorsIfDue = createPurgeSchedule(retentionDays =>
+	getDbPool().execute("UPDATE blog_comments SET visitor = '' WHERE visitor <> '' AND created_at < NOW() - INTERVAL ? DAY", [retentionDays])
+)
+
+/**
+ * ?slug=  approved comments of a post, the owner also gets pending ones
+ * ?status=pending  moderation queue of every post, oldest first, owner only
+ */
+export const GET = async (req: NextRequest) => {
+	const isOwner = await isOwnerRequest(req)
+
+	try {
+		await ensureCommentsTable()
+		const pool = getDbPool()
+
+		if (req.nextUrl.searchParams.get('status') === 'pending') {
+			if (!isOwner) return respond(401, { error: 'Unauthorized' })
+			const [rows] = await pool.execute<CommentRow[]>(
+				`SELECT ${COMMENT_COLUMNS} FROM blog_comments WHERE status = 'pending' ORDER BY created_at ASC LIMIT ${MAX_QUEUE_LENGTH}`
+			)
+			return respond(200, { comments: rows.map(toComment) })
+		}
+
+		const { slug, error } = parseSlug(req)
+		if (!slug) return respond(400, { error })
+
+		const [rows] = await pool.execute<CommentRow[]>(
+			isOwner
+				? `SELECT ${COMMENT_COLUMNS} FROM blog_comments WHERE slug = ? ORDER BY created_at ASC`
+				: `SELECT ${COMMENT_COLUMNS} FROM blog_comments WHERE slug = ? AND status = 'approved' ORDER BY created_at ASC`,
+			[slug]
+		)
+		return respond(200, { comments: rows.map(toComment) })
+	} catch (err) {
+		console.error('Failed to fetch comments', err)
+		return respond(500, { error: 'Failed to load comments' })
+	}
+}
+
+export const POST = async (req: NextRequest) => {
+	const { slug, error } = parseSlug(req)
+	if (!slug) return respond(400, { error })
+
+	const body = await req.json().catch(() => null)
+	const author = typeof body?.author === 'string' ? body.author.trim() : ''
+	const content = typeof body?.content === 'string' ? body.content.trim() : ''
+	const parentId = body?.parentId == null ? null : Number(body.parentId)
+
+	if (!author || author.length > MAX_AUTHOR_LENGTH) return respond(400, { error: 'Invalid author' })
+	if (!content || content.length > MAX_CONTENT_LENGTH) return respond(400, { error: 'Invalid content' })
+	if (parentId !== null && !(Number.isSafeInteger(parentId) && parentId > 0)) return respond(400, { error: 'Invalid parent' })
+
+	const isOwner = await isOwnerRequest(req)
+	// the daily rotating hash, the long lived cookie key is not stored with the comment
+	const [visitor] = resolveVisitor(req).keys
+
+	try {
+		await ensureCommentsTable()
+		const pool = getDbPool()
+
+		if (!isOwner) {
+			const [limitedRows] = await pool.execute<RowDataPacket[]>(
+				`SELECT
+					SUM(created_at >= NOW() - INTERVAL ${MIN_INTERVAL_SECONDS} SECOND) AS recent,
+					COUNT(*) AS today
+				FROM blog_comments WHERE visitor = ? AND created_at >= CURDATE()`,
+				[visitor]
+			)
+			const { recent, today } = limitedRows[0] ?? {}
+			if (Number(recent) > 0 || Number(today) >= MAX_PER_DAY) return respond(RATE_LIMIT_STATUS, { reason: 'rate_limited' })
+		}
+
+		// replies only go under visible comments of the same post
+		if (parentId !== null) {
+			const [parents] = await pool.execute<RowDataPacket[]>("SELECT 1 FROM blog_comments WHERE id = ? AND slug = ? AND status = 'approved' LIMIT 1", [
+				parentId,
+				slug
+			])
+			if (!parents.length) return respond(400, { error: 'Invalid parent' })
+		}
+
+		const status = isOwner ? 'approved' : 'pending'
+		const [result] = await pool.execute<ResultSetHeader>(
+			'INSERT INTO blog_comments (slug, parent_id, author, content, status, is_owner, visitor) VALUES (?, ?, ?, ?, ?, ?, ?)',
+			[slug, parentId, author, content, status, isOwner ? 1 : 0, visitor]
+		)
+		purgeCommentVisitorsIfDue()
+		const [rows] = await pool.execute<CommentRow[]>(`SELECT ${COMMENT_COLUMNS} FROM blog_comments WHERE id = ?`, [result.insertId])
+		return respond(200, { comment: rows[0] ? toComment(rows[0]) : null })
+	} catch (err) {
+		console.error('Failed to save comment', err)
+		return respond(500, { error: 'Failed to save comment' })
+	}
+}
+
+/**
+ * ?id=  approve a pending comment, owner only
+ */
+export const PATCH = async (req: NextRequest) => {
+	const id = parseId(req)
+	if (!id) return respond(400, { error: 'Missing id' })
+	if (!(await isOwnerRequest(req))) return respond(401, { error: 'Unauthorized' })
+
+	try {
+		await ensureCommentsTable()
+		await getDbPool().execute("UPDATE blog_comments SET status = 'approved' WHERE id = ?", [id])
+		return respond(200, { ok: true })
+	} catch (err) {
+		console.error('Failed to approve comment', err)
+		return respond(500, { error: 'Failed to approve comment' })
+	}
+}
+
+/**
+ * ?id=  delete a comment together with its replies, owner only
+ */
+export const DELETE = async (req: NextRequest) => {
+	const id = parseId(req)
+	if (!id) return respond(400, { error: 'Missing id' })
+	if (!(await isOwnerRequest(req))) return respond(401, { error: 'Unauthorized' })
+
+	try {
+		await ensureCommentsTable()
+		const pool = getDbPool()
+
+		const ids = [id]
+		let frontier = [id]
+		while (frontier.length) {
+			const [rows] = await pool.query<RowDataPacket[]>('SELECT id FROM blog_comments WHERE parent_id IN (?)', [frontier])
+			frontier = rows.map(row => row.id as number)
+			ids.push(...frontier)
+		}
+
+		await pool.query('DELETE FROM blog_comments WHERE id IN (?)', [ids])
+		return respond(200, { deleted: ids.length })
+	} catch (err) {
+		console.error('Failed to delete comment', err)
+		return respond(500, { error: 'Failed to delete comment' })
+	}
+}
@@ -0,0 +1,88 @@
+import type { NextRequest } from 'next/server'
+
+import type { PoolConnection, RowDataPacket } from 'mysql2/promise'
+
+import { parseSlug, RATE_LIMIT_STATUS, respond } from '@/lib/api-route'
+import { ensureReactionsTable, getDbPool, type ReactionCountRow } from '@/lib/db'
+import { isReactionKey, type ReactionCounts } from '@/lib/reactions'
+import { createPurgeSchedule } from '@/lib/event-retention'
+import { resolveVisitor, setVisitorCookie } from '@/lib/visitor-id'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const readCounts = async (connection: Pick<PoolConnection, 'execute'>, slug: string): Promise<ReactionCounts> => {
+	const [rows] = await connection.execute<ReactionCountRow[]>('SELECT reaction, count FROM blog_reactions WHERE slug = ?', [slug])
+	const counts: ReactionCounts = {}
+	for (const row of rows) {
+		if (isReactionKey(row.reaction)) counts[row.reaction] = row.count
+	}
+	return counts
+}
+
+const purgeReactionEventsIfDue = createPurgeSchedule(retentionDays =>
+	getDbPool().query('DELETE FROM blog_reaction_events WHERE day < CURDATE() - INTERVAL ? DAY', [retentionDays])
+)
+
+export const GET = async (req: NextRequest) => {
+	const { slug, error } = parseSlug(req)
+	if (!slug) return respond(400, { error })
+
+	try {
+		await ensureReactionsTable()
+		return respond(200, { counts: await readCounts(getDbPool(), slug) })
+	} catch (err) {
+		console.error('Failed to fetch reactions', err)
+		return respond(500, { error: 'Failed to load reactions' })
+	}
+}
+
+export const POST = async (req: NextRequest) => {
+	const { slug, error } = parseSlug(req)
+	if (!slug) return respond(400, { error })
+	const reaction = req.nextUrl.searchParams.get('reaction')
+	if (!isReactionKey(reaction)) return respond(400, { error: 'Unknown reaction' })
+	const visitor = resolveVisitor(req)
+
+	try {
+		await ensureReactionsTable()
+		const connection = await getDbPool().getConnection()
+		let committed = false
+		try {
+			// Rate limit: each reaction once per visitor per slug per day
+			await connection.beginTransaction()
+			const [limitedRows] = await connection.query<RowDataPacket[]>(
+				'SELECT 1 FROM blog_reaction_events WHERE slug = ? AND reaction = ? AND visitor IN (?) AND day = CURDATE() LIMIT 1 FOR UPDATE',
+				[slug, reaction, visitor.keys]
+			)
+			await connection.execute(
+				`INSERT IGNORE INTO blog_reaction_events (slug, reaction, visitor, day) VALUES ${visitor.keys.map(() => '(?, ?, ?, CURDATE())').join(', ')}`,
+				visitor.keys.flatMap(key => [slug, reaction, key])
+			)
+			if (!limitedRows.length) {
+				await connection.execute('INSERT INTO blog_reactions (slug, reaction, count) VALUES (?, ?, 1) ON DUPLICATE KEY UPDATE count = count + 1', [
+					slug,
+					reaction
+				])
+			}
+			const counts = await readCounts(connection, slug)
+			await connection.commit()
+			committed = true
+			purgeReactionEventsIfDue()
+			if (limitedRows.length) return setVisitorCookie(respond(RATE_LIMIT_STATUS, { reason: 'rate_limited', counts }), visitor)
+			return setVisitorCookie(respond(200, { counts }), visitor)
+		} finally {
+			if (!committed) {
+				try {
+					await connection.rollback()
+				} catch {
+					// ignore rollback errors
+				}
+			}
+			connection.release()
+		}
+	} catch (err) {
+		console.error('Failed to save reaction', err)
+		return respond(500, { error: 'Failed to save reaction' })
+	}
+}
@@ -0,0 +1,144 @@
+import type { NextRequest } from 'next/server'
+
+import type { ResultSetHeader } from 'mysql2/promise'
+
+import { BLOG_SLUG_KEY } from '@/consts'
+import { parseSlug, respond } from '@/lib/api-route'
+import { ensureViewsTable, getDbPool, type ViewCountRow } from '@/lib/db'
+import { getBlogIndex } from '@/lib/blog-server'
+import { isBotRequest } from '@/lib/bot-filter'
+import { createPurgeSchedule } from '@/lib/event-retention'
+import { isViewPeriod, VIEW_PERIODS } from '@/lib/post-views'
+import { resolveVisitor } from '@/lib/visitor-id'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// the same visitor re-opening a post within one such window counts once
+const DEDUPE_MINUTES = 30
+const DEFAULT_POPULAR_LIMIT = 10
+const MAX_POPULAR_LIMIT = 50
+// the rankings count events, so they are kept at least as long as the longest period
+const MIN_RETENTION_DAYS = Math.max(...VIEW_PERIODS.map(period => period.days ?? 0))
+
+const parseLimit = (req: NextRequest): number => {
+	const limit = Number(req.nextUrl.searchParams.get('limit'))
+	if (!Number.isSafeInteger(limit) || limit <= 0) return DEFAULT_POPULAR_LIMIT
+	return Math.min(limit, MAX_POPULAR_LIMIT)
+}
+
+let postSlugs: Set<string> | null = null
+
+// only posts of the bundled index are counted, so made up slugs never reach the tables
+const getPostSlugs = (): Set<string> => {
+	if (!postSlugs) postSlugs = new Set(getBlogIndex().map(item => item.slug))
+	return postSlugs
+}
+
+// the api speaks bare slugs, rows are keyed with BLOG_SLUG_KEY which only the server knows
+const toKey = (slug: string): string => BLOG_SLUG_KEY + slug
+const toSlug = (key: string): string => key.slice(BLOG_SLUG_KEY.length)
+
+const purgeViewEventsIfDue = createPurgeSchedule(retentionDays =>
+	getDbPool().query('DELETE FROM blog_view_events WHERE created_at < NOW() - INTERVAL ? DAY', [Math.max(retentionDays, MIN_RETENTION_DAYS)])
+)
+
+/**
+ * ?slug=  views of one post
+ * ?period=week|month|all  most viewed posts of the period, ?limit= defaults to 10
+ * no params  views of every post, for the lists
+ */
+export const GET = async (req: NextRequest) => {
+	const { searchParams } = req.nextUrl
+	const keys = [...getPostSlugs()].map(toKey)
+
+	try {
+		await ensureViewsTable()
+		const pool = getDbPool()
+
+		const period = searchParams.get('period')
+		if (period !== null) {
+			if (!isViewPeriod(period)) return respond(400, { error: 'Invalid period' })
+			if (!keys.length) return respond(200, { items: [] })
+			const limit = parseLimit(req)
+			const days = VIEW_PERIODS.find(item => item.key === period)?.days
+			const [rows] = days
+				? await pool.query<ViewCountRow[]>(
+						'SELECT slug, COUNT(*) AS count FROM blog_view_events WHERE created_at >= NOW() - INTERVAL ? DAY AND slug IN (?) GROUP BY slug ORDER BY count DESC, slug ASC LIMIT ?',
+						[days, keys, limit]
+					)
+				: await pool.query<ViewCountRow[]>('SELECT slug, count FROM blog_views WHERE count > 0 AND slug IN (?) ORDER BY count DESC, slug ASC LIMIT ?', [
+						keys,
+						limit
+					])
+			return respond(200, { items: rows.map(row => ({ slug: toSlug(row.slug), count: Number(row.count) })) })
+		}
+
+		if (searchParams.has('slug')) {
+			const { slug, error } = parseSlug(req)
+			if (!slug) return respond(400, { error })
+			if (!getPostSlugs().has(slug)) return respond(200, { count: 0 })
+			const [rows] = await pool.execute<ViewCountRow[]>('SELECT slug, count FROM blog_views WHERE slug = ? LIMIT 1', [toKey(slug)])
+			return respond(200, { count: rows[0]?.count ?? 0 })
+		}
+
+		if (!keys.length) return respond(200, { counts: {} })
+		const [rows] = await pool.query<ViewCountRow[]>('SELECT slug, count FROM blog_views WHERE slug IN (?)', [keys])
+		return respond(200, { counts: Object.fromEntries(rows.map(row => [toSlug(row.slug), row.count])) })
+	} catch (err) {
+		console.error('Failed to fetch views', err)
+		return respond(500, { error: 'Failed to load views' })
+	}
+}
+
+export const POST = async (req: NextRequest) => {
+	const { slug, error } = parseSlug(req)
+	if (!slug) return respond(400, { error })
+	if (!getPostSlugs().has(slug)) return respond(404, { error: 'Unknown post' })
+	const key = toKey(slug)
+
+	try {
+		await ensureViewsTable()
+		const pool = getDbPool()
+
+		if (isBotRequest(req)) {
+			const [rows] = await pool.execute<ViewCountRow[]>('SELECT slug, count FROM blog_views WHERE slug = ? LIMIT 1', [key])
+			return respond(200, { count: rows[0]?.count ?? 0, counted: false })
+		}
+
+		// one event per visitor and window, keyed by the daily rotating hash rather than the long lived cookie
+		// the unique key settles concurrent requests, only the one that inserted the event moves the counter
+		const [visitor] = resolveVisitor(req).keys
+		const bucket = Math.floor(Date.now() / (DEDUPE_MINUTES * 60 * 1000))
+
+		const connection = await pool.getConnection()
+		let committed = false
+		try {
+			await connection.beginTransaction()
+			const [result] = await connection.execute<ResultSetHeader>('INSERT IGNORE INTO blog_view_events (slug, visitor, bucket) VALUES (?, ?, ?)', [
+				key,
+				visitor,
+				bucket
+			])
+			const counted = result.affectedRows > 0
+			if (counted) await connection.execute('INSERT INTO blog_views (slug, count) VALUES (?, 1) ON DUPLICATE KEY UPDATE count = count + 1', [key])
+			const [rows] = await connection.execute<ViewCountRow[]>('SELECT slug, count FROM blog_views WHERE slug = ? LIMIT 1', [key])
+			await connection.commit()
+			committed = true
+			if (counted) purgeViewEventsIfDue()
+			return respond(200, { count: rows[0]?.count ?? 0, counted })
+		} finally {
+			if (!committed) {
+				try {
+					await connection.rollback()
+				} catch {
+					// ignore rollback errors
+				}
+			}
+			connection.release()
+		}
+	} catch (err) {
+		console.error('Failed to record view', err)
+		return respond(500, { error: 'Failed to record view' })
+	}
+}
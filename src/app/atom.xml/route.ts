@@ -0,0 +1,10 @@
+import blogIndex from '@/../public/blogs/index.json'
+import type { BlogIndexItem } from '@/app/blog/types'
+import { buildAtomFeed, feedResponse, getFeedItems, siteFeedChannel } from '@/lib/feed'
+
+export const dynamic = 'force-static'
+
+export async function GET(): Promise<Response> {
+	const items = await getFeedItems(blogIndex as BlogIndexItem[])
+	return feedResponse(buildAtomFeed(siteFeedChannel('/atom.xml'), items), 'atom')
+}
@@ -1,96 +1,116 @@
-'use client'
-
-import { useEffect, useMemo, useState } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
 import dayjs from 'dayjs'
-import { motion } from 'motion/react'
 import { BlogPreview } from '@/components/blog-preview'
-import { loadBlog, type BlogConfig } from '@/lib/load-blog'
-import { useReadArticles } from '@/hooks/use-read-articles'
-import LiquidGrass from '@/components/liquid-grass'
+import { getBlogIndex, readBlogFromDisk } from '@/lib/blog-server'
+import { renderMarkdown } from '@/lib/markdown-renderer'
+import { computeBlogStats } from '@/lib/blog-stats'
+import { filterPublished, isScheduled } from '@/lib/blog-schedule'
+import { SITE_ORIGIN } from '@/consts'
+import { BlogActions } from '../components/blog-actions'
+import { ProtectedPost } from '../components/protected-post'
 
-export default function Page() {
-	const params = useParams() as { id?: string | string[] }
-	const slug = Array.isArray(params?.id) ? params.id[0] : params?.id || ''
-	const router = useRouter()
-	const { markAsRead } = useReadArticles()
+type PageProps = {
+	params: Promise<{ id: string }>
+}
 
-	const [blog, setBlog] = useState<{ config: BlogConfig; markdown: string; cover?: string } | null>(null)
-	const [error, setError] = useState<string | null>(null)
-	const [loading, setLoading] = useState<boolean>(true)
+export const dynamicParams = false
 
-	useEffect(() => {
-		let cancelled = false
-		async function run() {
-			if (!slug) return
-			try {
-				setLoading(true)
-				const blogData = await loadBlog(slug)
+const toAbsoluteUrl = (url: string): string => (/^https?:\/\//.test(url) ? url : `${SITE_ORIGIN}${url.startsWith('/') ? '' : '/'}${url}`)
 
-				if (!cancelled) {
-					setBlog(blogData)
-					setError(null)
-					markAsRead(slug)
-				}
-			} catch (e: any) {
-				if (!cancelled) setError(e?.message || '加载失败')
-			} finally {
-				if (!cancelled) setLoading(false)
-			}
-		}
-		run()
-		return () => {
-			cancelled = true
-		}
-	}, [slug, markAsRead])
+export function generateStaticParams(): Array<{ id: string }> {
+	// scheduled posts are not prerendered until a build after their publishAt
+	return filterPublished(getBlogIndex()).map(item => ({ id: item.slug }))
+}
 
-	const title = useMemo(() => (blog?.config.title ? blog.config.title : slug), [blog?.config.title, slug])
-	const date = useMemo(() => dayjs(blog?.config.date).format('YYYY年 M月 D日'), [blog?.config.date])
-	const tags = blog?.config.tags || []
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+	const { id: slug } = await params
+	const blog = await readBlogFromDisk(slug)
+	if (!blog || isScheduled(blog.config)) return {}
 
-	const handleEdit = () => {
-		router.push(`/write/${slug}`)
-	}
+	const title = blog.config.title || slug
+	const description = blog.config.summary || undefined
+	const tags = blog.config.tags || []
+	const url = `${SITE_ORIGIN}/blog/${encodeURIComponent(slug)}`
+	const images = blog.cover ? [toAbsoluteUrl(blog.cover)] : undefined
 
-	if (!slug) {
-		return <div className='text-secondary flex h-full items-center justify-center text-sm'>无效的链接</div>
+	return {
+		title,
+		description,
+		keywords: tags.length > 0 ? tags : undefined,
+		alternates: {
+			canonical: url
+		},
+		openGraph: {
+			type: 'article',
+			title,
+			description,
+			url,
+			images,
+			tags,
+			publishedTime: blog.config.date ? dayjs(blog.config.date).toISOString() : undefined
+		},
+		twitter: {
+			card: images ? 'summary_large_image' : 'summary',
+			title,
+			description,
+			images
+		}
 	}
+}
 
-	if (loading) {
-		return <div className='text-secondary flex h-full items-center justify-center text-sm'>加载中...</div>
-	}
+export default async function Page({ params }: PageProps) {
+	const { id: slug } = await params
+	const blog = await readBlogFromDisk(slug)
+	if (!blog || isScheduled(blog.config)) notFound()
 
-	if (error) {
-		return <div className='flex h-full items-center justify-center text-sm text-red-500'>{error}</div>
-	}
+	const title = blog.config.title || slug
+	const date = dayjs(blog.config.date).format('YYYY年 M月 D日')
 
-	if (!blog) {
-		return <div className='text-secondary flex h-full items-center justify-center text-sm'>文章不存在</div>
+	// index.md holds cipher text, it is decrypted and rendered in the browser after unlocking
+	if (blog.config.protected) {
+		return (
+			<ProtectedPost
+				cipherText={blog.markdown}
+				title={title}
+				tags={blog.config.tags || []}
+				date={date}
+				summary={blog.config.summary}
+				cover={blog.cover}
+				slug={slug}
+				markdownFeatures={blog.config.markdown}
+				series={blog.config.series}
+				postNavigation
+				comments
+				reactions
+				views
+			/>
+		)
 	}
 
+	const rendered = await renderMarkdown(blog.markdown, { features: blog.config.markdown })
+	const stats = computeBlogStats(blog.markdown)
+
 	return (
 		<>
 			<BlogPreview
 				markdown={blog.markdown}
+				rendered={rendered}
 				title={title}
-				tags={tags}
+				tags={blog.config.tags || []}
 				date={date}
 				summary={blog.config.summary}
-				cover={blog.cover ? `${origin}${blog.cover}` : undefined}
+				cover={blog.cover}
 				slug={slug}
+				stats={stats}
+				series={blog.config.series}
+				postNavigation
+				comments
+				reactions
+				views
 			/>
 
-			<motion.button
-				initial={{ opacity: 0, scale: 0.6 }}
-				animate={{ opacity: 1, scale: 1 }}
-				whileHover={{ scale: 1.05 }}
-				whileTap={{ scale: 0.95 }}
-				onClick={handleEdit}
-				className='absolute top-4 right-6 rounded-xl border bg-white/60 px-6 py-2 text-sm backdrop-blur-sm transition-colors hover:bg-white/80 max-sm:hidden'>
-				编辑
-			</motion.button>
-
-			{slug === 'liquid-grass' && <LiquidGrass />}
+			<BlogActions slug={slug} />
 		</>
 	)
 }
@@ -0,0 +1,32 @@
+import type { Metadata } from 'next'
+import { SITE_ORIGIN } from '@/consts'
+import { getBlogCategories } from '@/lib/blog-server'
+import { categoryFeedHref, categoryHref } from '@/lib/blog-categories'
+import { decodeRouteParam } from '@/lib/utils'
+import { CategoryPosts } from '../../components/category-posts'
+
+type PageProps = {
+	params: Promise<{ name: string }>
+}
+
+export function generateStaticParams(): Array<{ name: string }> {
+	return getBlogCategories().map(name => ({ name }))
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+	const name = decodeRouteParam((await params).name)
+	return {
+		title: name,
+		alternates: {
+			canonical: `${SITE_ORIGIN}${categoryHref(name)}`,
+			types: {
+				'application/rss+xml': [{ url: `${SITE_ORIGIN}${categoryFeedHref(name)}`, title: `${name} RSS` }]
+			}
+		}
+	}
+}
+
+export default async function Page({ params }: PageProps) {
+	const name = decodeRouteParam((await params).name)
+	return <CategoryPosts name={name} />
+}
@@ -0,0 +1,34 @@
+import siteContent from '@/config/site-content.json'
+import { getBlogCategories, getBlogIndex } from '@/lib/blog-server'
+import { categoryFeedHref, categoryHref, filterByCategory } from '@/lib/blog-categories'
+import { buildRssFeed, feedResponse, getFeedItems } from '@/lib/feed'
+import { decodeRouteParam } from '@/lib/utils'
+
+type RouteContext = {
+	params: Promise<{ name: string }>
+}
+
+export const dynamic = 'force-static'
+
+export function generateStaticParams(): Array<{ name: string }> {
+	return getBlogCategories().map(name => ({ name }))
+}
+
+export async function GET(_request: Request, { params }: RouteContext): Promise<Response> {
+	const name = decodeRouteParam((await params).name)
+	if (!getBlogCategories().includes(name)) {
+		return new Response('Not Found', { status: 404 })
+	}
+
+	const siteTitle = siteContent.meta?.title || '2025 Blog'
+
+	const channel = {
+		title: `${name} - ${siteTitle}`,
+		description: `${siteTitle} 中「${name}」分类下的文章`,
+		feedPath: categoryFeedHref(name),
+		link: categoryHref(name)
+	}
+	const items = await getFeedItems(filterByCategory(getBlogIndex(), name))
+
+	return feedResponse(buildRssFeed(channel, items), 'rss')
+}
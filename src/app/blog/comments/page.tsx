@@ -0,0 +1,13 @@
+import type { Metadata } from 'next'
+import { CommentQueue } from '../components/comment-queue'
+
+export const metadata: Metadata = {
+	title: '评论审核',
+	robots: {
+		index: false
+	}
+}
+
+export default function Page() {
+	return <CommentQueue />
+}
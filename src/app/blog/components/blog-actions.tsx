@@ -0,0 +1,35 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { motion } from 'motion/react'
+import { useReadingProgress } from '@/hooks/use-reading-progress'
+import LiquidGrass from '@/components/liquid-grass'
+
+type BlogActionsProps = {
+	slug: string
+}
+
+export function BlogActions({ slug }: BlogActionsProps) {
+	const router = useRouter()
+	useReadingProgress(slug)
+
+	const handleEdit = () => {
+		router.push(`/write/${slug}`)
+	}
+
+	return (
+		<>
+			<motion.button
+				initial={{ opacity: 0, scale: 0.6 }}
+				animate={{ opacity: 1, scale: 1 }}
+				whileHover={{ scale: 1.05 }}
+				whileTap={{ scale: 0.95 }}
+				onClick={handleEdit}
+				className='absolute top-4 right-6 rounded-xl border bg-white/60 px-6 py-2 text-sm backdrop-blur-sm transition-colors hover:bg-white/80 max-sm:hidden'>
+				编辑
+			</motion.button>
+
+			{slug === 'liquid-grass' && <LiquidGrass />}
+		</>
+	)
+}
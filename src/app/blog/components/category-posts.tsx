@@ -0,0 +1,27 @@
+'use client'
+
+import Link from 'next/link'
+import { Rss } from 'lucide-react'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { categoryFeedHref, filterByCategory } from '@/lib/blog-categories'
+import { PostList } from './post-list'
+
+export function CategoryPosts({ name }: { name: string }) {
+	const { items, loading } = useBlogIndex()
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 max-sm:pt-24'>
+			<PostList title={name} items={filterByCategory(items, name)} loading={loading} />
+
+			<div className='flex items-center gap-6 text-sm'>
+				<a href={categoryFeedHref(name)} target='_blank' className='text-secondary hover:text-brand flex items-center gap-1'>
+					<Rss className='size-3.5' />
+					订阅该分类
+				</a>
+				<Link href='/blog' className='text-secondary hover:text-brand'>
+					全部文章
+				</Link>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import Link from 'next/link'
+import dayjs from 'dayjs'
+import { toast } from 'sonner'
+import { BLOG_SLUG_KEY } from '@/consts'
+import { useAuthStore } from '@/hooks/use-auth'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { usePendingComments } from '@/hooks/use-comments'
+import { renderCommentMarkdown } from '@/lib/comment-markdown'
+
+// comments are stored under prefixed slugs, links need the bare one
+const toPostSlug = (slug: string): string => (slug.startsWith(BLOG_SLUG_KEY) ? slug.slice(BLOG_SLUG_KEY.length) : slug)
+
+/**
+ * Pending comments of every post in one list, so the owner does not have to open each post
+ */
+export function CommentQueue() {
+	const { isAuth } = useAuthStore()
+	const { items } = useBlogIndex()
+	const { comments, loading, error, approveComment, deleteComment } = usePendingComments()
+	const titles = new Map(items.map(item => [item.slug, item.title]))
+
+	const handleApprove = async (id: number) => {
+		try {
+			await approveComment(id)
+			toast.success('已通过')
+		} catch {
+			toast.error('操作失败')
+		}
+	}
+
+	const handleDelete = async (id: number) => {
+		if (!window.confirm('删除这条评论及其所有回复？')) return
+		try {
+			await deleteComment(id)
+			toast.success('已删除')
+		} catch {
+			toast.error('删除失败')
+		}
+	}
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 max-sm:pt-24'>
+			<div className='card relative w-full max-w-[840px] space-y-4 p-6'>
+				<div className='text-lg font-semibold'>待审核评论{comments.length > 0 && `（${comments.length}）`}</div>
+
+				{!isAuth && <div className='text-secondary text-sm'>导入密钥后才能审核评论</div>}
+				{isAuth && loading && <div className='text-secondary text-sm'>加载中...</div>}
+				{isAuth && error && <div className='text-sm text-red-500'>加载失败</div>}
+				{isAuth && !loading && !error && comments.length === 0 && <div className='text-secondary text-sm'>没有待审核的评论</div>}
+
+				{comments.map(comment => {
+					const slug = toPostSlug(comment.slug)
+					return (
+						<div key={comment.id} className='rounded-xl border bg-white/60 p-3'>
+							<div className='flex flex-wrap items-center gap-2 text-xs'>
+								<span className='text-sm font-medium'>{comment.author}</span>
+								{comment.parentId !== null && <span className='text-secondary'>回复</span>}
+								<span className='text-secondary'>{dayjs(comment.createdAt).format('YYYY-MM-DD HH:mm')}</span>
+								<Link href={`/blog/${slug}`} className='text-brand ml-auto hover:underline'>
+									{titles.get(slug) || slug}
+								</Link>
+							</div>
+							<div
+								className='comment-content mt-1 text-sm leading-relaxed break-words'
+								dangerouslySetInnerHTML={{ __html: renderCommentMarkdown(comment.content) }}
+							/>
+							<div className='text-secondary mt-2 flex gap-3 text-xs'>
+								<button onClick={() => handleApprove(comment.id)} className='hover:text-brand'>
+									通过
+								</button>
+								<button onClick={() => handleDelete(comment.id)} className='hover:text-red-500'>
+									删除
+								</button>
+							</div>
+						</div>
+					)
+				})}
+			</div>
+
+			<Link href='/blog' className='text-secondary hover:text-brand text-sm'>
+				全部文章
+			</Link>
+		</div>
+	)
+}
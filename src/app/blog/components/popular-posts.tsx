@@ -0,0 +1,46 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { usePopularPosts } from '@/hooks/use-post-views'
+import { VIEW_PERIODS, type ViewPeriod } from '@/lib/post-views'
+import { cn } from '@/lib/utils'
+import { PostList } from './post-list'
+
+const POPULAR_LIMIT = 20
+
+export function PopularPosts() {
+	const [period, setPeriod] = useState<ViewPeriod>('week')
+	const { items, loading } = useBlogIndex()
+	const { items: popular, loading: popularLoading } = usePopularPosts(period, POPULAR_LIMIT)
+
+	// hidden or deleted posts may still have views, only rank what is listed
+	const bySlug = new Map(items.map(item => [item.slug, item]))
+	const ranked = popular.flatMap(({ slug }) => bySlug.get(slug) ?? [])
+	const counts = Object.fromEntries(popular.map(({ slug, count }) => [slug, count]))
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 max-sm:pt-24'>
+			<div className='card relative mx-auto flex items-center gap-1 rounded-xl p-1'>
+				{VIEW_PERIODS.map(option => (
+					<button
+						key={option.key}
+						onClick={() => setPeriod(option.key)}
+						className={cn(
+							'rounded-lg px-3 py-1.5 text-xs font-medium transition-all',
+							period === option.key ? 'bg-brand text-white shadow-sm' : 'text-secondary hover:text-brand hover:bg-white/60'
+						)}>
+						{option.label}
+					</button>
+				))}
+			</div>
+
+			<PostList title='热门文章' items={ranked} loading={loading || popularLoading} viewCounts={counts} keepOrder />
+
+			<Link href='/blog' className='text-secondary hover:text-brand text-sm'>
+				全部文章
+			</Link>
+		</div>
+	)
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import Link from 'next/link'
+import dayjs from 'dayjs'
+import { motion } from 'motion/react'
+import { Lock } from 'lucide-react'
+import { INIT_DELAY } from '@/consts'
+import ShortLineSVG from '@/svgs/short-line.svg'
+import { useReadArticles } from '@/hooks/use-read-articles'
+import { ReadingProgressRing } from '@/components/reading-progress-ring'
+import { useViewCounts } from '@/hooks/use-post-views'
+import { isScheduled } from '@/lib/blog-schedule'
+import { tagHref } from '@/lib/blog-tags'
+import type { BlogIndexItem } from '@/app/blog/types'
+
+type PostListProps = {
+	title: string
+	items: BlogIndexItem[]
+	loading?: boolean
+	// list the items as given instead of newest first, e.g. the parts of a series
+	keepOrder?: boolean
+	// counts to show instead of the all time views, e.g. views of this week
+	viewCounts?: Record<string, number>
+}
+
+/**
+ * Flat list of posts in one card, newest first, used by the tag / category style pages
+ */
+export function PostList({ title, items, loading, keepOrder, viewCounts }: PostListProps) {
+	const { readArticles } = useReadArticles()
+	const { counts: allTimeCounts } = useViewCounts()
+	const counts = viewCounts ?? allTimeCounts
+	const sorted = keepOrder ? items : [...items].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+
+	return (
+		<motion.div
+			initial={{ opacity: 0, scale: 0.95 }}
+			animate={{ opacity: 1, scale: 1 }}
+			transition={{ delay: INIT_DELAY / 2 }}
+			className='card relative w-full max-w-[840px] space-y-6'>
+			<div className='mb-3 flex items-center gap-3 text-base'>
+				<div className='font-medium'>{title}</div>
+				<div className='h-2 w-2 rounded-full bg-[#D9D9D9]'></div>
+				<div className='text-secondary text-sm'>{items.length} 篇文章</div>
+			</div>
+
+			<div>
+				{loading && <div className='text-secondary py-3 text-sm'>加载中...</div>}
+				{!loading && sorted.length === 0 && <div className='text-secondary py-3 text-sm'>暂无文章</div>}
+				{sorted.map(it => (
+					<div key={it.slug} className='group flex min-h-10 items-center gap-3 py-3'>
+						<span className='text-secondary w-[84px] shrink-0 text-sm font-medium'>{dayjs(it.date).format('YYYY-MM-DD')}</span>
+
+						<div className='relative flex h-2 w-2 items-center justify-center'>
+							<div className='bg-secondary group-hover:bg-brand h-[5px] w-[5px] rounded-full transition-all group-hover:h-4'></div>
+							<ShortLineSVG className='absolute bottom-4' />
+						</div>
+						<Link href={`/blog/${it.slug}`} className='group-hover:text-brand flex-1 truncate text-sm font-medium transition-all group-hover:translate-x-2'>
+							{it.title || it.slug}
+							{it.protected && <Lock className='text-secondary ml-1.5 inline size-3.5 align-[-2px]' aria-label='已加密' />}
+							{isScheduled(it) && (
+								<span className='ml-2 rounded bg-amber-50 px-1.5 py-0.5 text-xs text-amber-700'>定时 {dayjs(it.publishAt).format('MM-DD HH:mm')}</span>
+							)}
+							<ReadingProgressRing record={readArticles[it.slug]} className='ml-2' />
+						</Link>
+						{!!it.stats?.readingMinutes && <span className='text-secondary shrink-0 text-xs max-sm:hidden'>{it.stats.readingMinutes} 分钟</span>}
+						{!!counts[it.slug] && <span className='text-secondary shrink-0 text-xs max-sm:hidden'>{counts[it.slug]} 阅读</span>}
+						<div className='flex flex-wrap items-center gap-2 max-sm:hidden'>
+							{(it.tags || []).map(t => (
+								<Link key={t} href={tagHref(t)} className='text-secondary hover:text-brand text-sm'>
+									#{t}
+								</Link>
+							))}
+						</div>
+					</div>
+				))}
+			</div>
+		</motion.div>
+	)
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useEffect, useState, type ComponentProps } from 'react'
+import { motion } from 'motion/react'
+import { Lock } from 'lucide-react'
+import { toast } from 'sonner'
+import { INIT_DELAY } from '@/consts'
+import { BlogPreview } from '@/components/blog-preview'
+import { computeBlogStats } from '@/lib/blog-stats'
+import { decryptMarkdown, normalizePassword } from '@/lib/protected-post'
+import { BlogActions } from './blog-actions'
+
+// unlocked posts stay readable until the tab is closed
+const PASSWORD_STORAGE_PREFIX = 'blog-password:'
+
+type ProtectedPostProps = Omit<ComponentProps<typeof BlogPreview>, 'markdown' | 'rendered' | 'stats' | 'slug'> & {
+	slug: string
+	cipherText: string
+}
+
+/**
+ * Unlock prompt for a password protected post, the markdown is decrypted and rendered in the browser
+ */
+export function ProtectedPost({ slug, cipherText, ...previewProps }: ProtectedPostProps) {
+	const storageKey = PASSWORD_STORAGE_PREFIX + slug
+	const [markdown, setMarkdown] = useState<string | null>(null)
+	const [password, setPassword] = useState('')
+	const [unlocking, setUnlocking] = useState(false)
+
+	useEffect(() => {
+		const saved = sessionStorage.getItem(storageKey)
+		if (!saved) return
+		decryptMarkdown(cipherText, saved).then(plain => {
+			if (plain === null) sessionStorage.removeItem(storageKey)
+			else setMarkdown(plain)
+		})
+	}, [cipherText, storageKey])
+
+	const handleUnlock = async (event: React.FormEvent) => {
+		event.preventDefault()
+		const normalized = normalizePassword(password)
+		if (!normalized) return
+		setUnlocking(true)
+		const plain = await decryptMarkdown(cipherText, normalized)
+		setUnlocking(false)
+		if (plain === null) {
+			toast.error('密码错误')
+			return
+		}
+		sessionStorage.setItem(storageKey, normalized)
+		setMarkdown(plain)
+	}
+
+	if (markdown !== null) {
+		return (
+			<>
+				<BlogPreview {...previewProps} slug={slug} markdown={markdown} stats={computeBlogStats(markdown)} />
+				<BlogActions slug={slug} />
+			</>
+		)
+	}
+
+	return (
+		<div className='flex min-h-screen items-center justify-center px-6'>
+			<motion.form
+				initial={{ opacity: 0, scale: 0.95 }}
+				animate={{ opacity: 1, scale: 1 }}
+				transition={{ delay: INIT_DELAY }}
+				onSubmit={handleUnlock}
+				className='card static w-full max-w-[380px] space-y-4 rounded-xl p-8 text-center'>
+				<Lock className='text-secondary mx-auto size-6' />
+				<div className='text-lg font-semibold'>{previewProps.title}</div>
+				<p className='text-secondary text-sm'>这篇文章已加密，请输入密码阅读</p>
+				<input
+					type='password'
+					autoFocus
+					autoComplete='current-password'
+					placeholder='密码'
+					value={password}
+					onChange={e => setPassword(e.target.value)}
+					className='bg-card w-full rounded-lg border px-3 py-2 text-sm'
+				/>
+				<button
+					type='submit'
+					disabled={!normalizePassword(password) || unlocking}
+					className='brand-btn w-full justify-center px-4 py-2 text-sm disabled:opacity-60'>
+					{unlocking ? '解锁中...' : '解锁'}
+				</button>
+			</motion.form>
+		</div>
+	)
+}
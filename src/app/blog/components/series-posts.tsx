@@ -0,0 +1,20 @@
+'use client'
+
+import Link from 'next/link'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { getSeriesParts } from '@/lib/blog-series'
+import { PostList } from './post-list'
+
+export function SeriesPosts({ name }: { name: string }) {
+	const { items, loading } = useBlogIndex()
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 max-sm:pt-24'>
+			<PostList title={`系列：${name}`} items={getSeriesParts(items, name)} loading={loading} keepOrder />
+
+			<Link href='/blog' className='text-secondary hover:text-brand text-sm'>
+				全部文章
+			</Link>
+		</div>
+	)
+}
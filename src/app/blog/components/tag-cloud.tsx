@@ -0,0 +1,59 @@
+'use client'
+
+import Link from 'next/link'
+import { motion } from 'motion/react'
+import { ANIMATION_DELAY, INIT_DELAY } from '@/consts'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { countTags, tagHref } from '@/lib/blog-tags'
+
+const MIN_SIZE = 14
+const MAX_SIZE = 32
+
+export function TagCloud() {
+	const { items, loading } = useBlogIndex()
+	const tags = countTags(items)
+
+	const counts = tags.map(t => t.count)
+	const min = Math.log(Math.min(...counts, 1))
+	const max = Math.log(Math.max(...counts, 1))
+	// log scale so a few very common tags do not flatten the rest
+	const sizeOf = (count: number) => (max === min ? (MIN_SIZE + MAX_SIZE) / 2 : MIN_SIZE + ((Math.log(count) - min) / (max - min)) * (MAX_SIZE - MIN_SIZE))
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 max-sm:pt-24'>
+			<motion.div
+				initial={{ opacity: 0, scale: 0.95 }}
+				animate={{ opacity: 1, scale: 1 }}
+				transition={{ delay: INIT_DELAY / 2 }}
+				className='card relative w-full max-w-[840px]'>
+				<div className='mb-6 flex items-center gap-3 text-base'>
+					<div className='font-medium'>标签</div>
+					<div className='h-2 w-2 rounded-full bg-[#D9D9D9]'></div>
+					<div className='text-secondary text-sm'>{tags.length} 个标签</div>
+				</div>
+
+				{loading && <div className='text-secondary py-6 text-center text-sm'>加载中...</div>}
+				{!loading && tags.length === 0 && <div className='text-secondary py-6 text-center text-sm'>暂无标签</div>}
+
+				<div className='flex flex-wrap items-baseline justify-center gap-x-5 gap-y-3'>
+					{tags.map(({ tag, count }, index) => (
+						<motion.div
+							key={tag}
+							initial={{ opacity: 0, scale: 0.6 }}
+							animate={{ opacity: 1, scale: 1 }}
+							transition={{ delay: INIT_DELAY / 2 + Math.min(index, 20) * (ANIMATION_DELAY / 4) }}>
+							<Link
+								href={tagHref(tag)}
+								title={`${count} 篇文章`}
+								style={{ fontSize: sizeOf(count), opacity: 0.6 + (sizeOf(count) - MIN_SIZE) / (MAX_SIZE - MIN_SIZE) / 2.5 }}
+								className='hover:text-brand font-medium transition-colors'>
+								#{tag}
+								<sup className='text-secondary ml-0.5 text-[10px]'>{count}</sup>
+							</Link>
+						</motion.div>
+					))}
+				</div>
+			</motion.div>
+		</div>
+	)
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import type { BlogIndexItem } from '@/hooks/use-blog-index'
+import { DialogModal } from '@/components/dialog-modal'
+import { countTags } from '@/lib/blog-tags'
+
+interface TagModalProps {
+	open: boolean
+	onClose: () => void
+	editableItems: BlogIndexItem[]
+	onRenameTag: (from: string, to: string) => void
+}
+
+export function TagModal({ open, onClose, editableItems, onRenameTag }: TagModalProps) {
+	const [drafts, setDrafts] = useState<Record<string, string>>({})
+	const tags = countTags(editableItems)
+
+	const handleRename = (from: string) => {
+		const to = (drafts[from] ?? '').trim()
+		if (!to || to === from) {
+			toast.info('请输入新的标签名称')
+			return
+		}
+		const target = tags.find(t => t.tag === to)
+		if (target && !window.confirm(`标签 #${to} 已存在，将 #${from} 合并到 #${to} 吗？`)) return
+
+		onRenameTag(from, to)
+		setDrafts(prev => {
+			const next = { ...prev }
+			delete next[from]
+			return next
+		})
+	}
+
+	return (
+		<DialogModal open={open} onClose={onClose} className='card w-[560px] max-w-[90vw] rounded-2xl p-6'>
+			<div className='mb-4 flex items-center justify-between'>
+				<div className='text-lg font-semibold'>文章标签</div>
+				<button onClick={onClose} className='text-secondary hover:text-brand text-sm'>
+					关闭
+				</button>
+			</div>
+			<div className='text-secondary mb-4 text-sm'>重命名为已有标签即合并，修改在点击保存后提交。</div>
+
+			<datalist id='blog-tag-options'>
+				{tags.map(({ tag }) => (
+					<option key={tag} value={tag} />
+				))}
+			</datalist>
+
+			<div className='max-h-[420px] space-y-2 overflow-y-auto rounded-xl bg-white/60 p-3'>
+				{tags.length === 0 && <div className='text-secondary text-sm'>暂无标签</div>}
+				{tags.map(({ tag, count }) => (
+					<div key={tag} className='flex items-center gap-3 rounded-lg border bg-white/80 px-3 py-2'>
+						<div className='min-w-0 flex-1 truncate text-sm font-medium'>
+							#{tag}
+							<span className='text-secondary ml-2 text-xs'>{count} 篇</span>
+						</div>
+						<input
+							list='blog-tag-options'
+							value={drafts[tag] ?? ''}
+							onChange={e => setDrafts(prev => ({ ...prev, [tag]: e.target.value }))}
+							onKeyDown={e => e.key === 'Enter' && handleRename(tag)}
+							placeholder='新名称 / 合并到'
+							className='focus:border-brand w-[160px] rounded-lg border px-3 py-1.5 text-sm outline-none'
+						/>
+						<button onClick={() => handleRename(tag)} className='brand-btn px-3 py-1.5 text-xs whitespace-nowrap'>
+							{tags.some(t => t.tag === (drafts[tag] ?? '').trim() && t.tag !== tag) ? '合并' : '重命名'}
+						</button>
+					</div>
+				))}
+			</div>
+		</DialogModal>
+	)
+}
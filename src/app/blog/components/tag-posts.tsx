@@ -0,0 +1,20 @@
+'use client'
+
+import Link from 'next/link'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { filterByTag } from '@/lib/blog-tags'
+import { PostList } from './post-list'
+
+export function TagPosts({ tag }: { tag: string }) {
+	const { items, loading } = useBlogIndex()
+
+	return (
+		<div className='flex flex-col items-center justify-center gap-6 px-6 pt-24 max-sm:pt-24'>
+			<PostList title={`#${tag}`} items={filterByTag(items, tag)} loading={loading} />
+
+			<Link href='/blog/tags' className='text-secondary hover:text-brand text-sm'>
+				查看全部标签
+			</Link>
+		</div>
+	)
+}
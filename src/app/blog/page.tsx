@@ -13,23 +13,32 @@ import ShortLineSVG from '@/svgs/short-line.svg'
 import { useBlogIndex, type BlogIndexItem } from '@/hooks/use-blog-index'
 import { useCategories } from '@/hooks/use-categories'
 import { useReadArticles } from '@/hooks/use-read-articles'
+import { useViewCounts } from '@/hooks/use-post-views'
+import { ReadingProgressRing } from '@/components/reading-progress-ring'
 import JuejinSVG from '@/svgs/juejin.svg'
 import { useAuthStore } from '@/hooks/use-auth'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 import { readFileAsText } from '@/lib/file-utils'
 import { cn } from '@/lib/utils'
+import { isScheduled } from '@/lib/blog-schedule'
 import { saveBlogEdits } from './services/save-blog-edits'
-import { Check } from 'lucide-react'
+import { Check, Lock, Search } from 'lucide-react'
+import { useSearchPalette } from '@/hooks/use-search'
 import { CategoryModal } from './components/category-modal'
+import { TagModal } from './components/tag-modal'
+import { renameTag } from '@/lib/blog-tags'
+import { categoryHref } from '@/lib/blog-categories'
 
 type DisplayMode = 'day' | 'week' | 'month' | 'year' | 'category'
 
 export default function BlogPage() {
 	const { items, loading } = useBlogIndex()
 	const { categories: categoriesFromServer } = useCategories()
-	const { isRead } = useReadArticles()
+	const { readArticles } = useReadArticles()
+	const { counts: viewCounts } = useViewCounts()
 	const { isAuth, setPrivateKey } = useAuthStore()
 	const { siteContent } = useConfigStore()
+	const { setOpen: setSearchOpen } = useSearchPalette()
 	const hideEditButton = siteContent.hideEditButton ?? false
 	const enableCategories = siteContent.enableCategories ?? false
 
@@ -40,6 +49,7 @@ export default function BlogPage() {
 	const [saving, setSaving] = useState(false)
 	const [displayMode, setDisplayMode] = useState<DisplayMode>('year')
 	const [categoryModalOpen, setCategoryModalOpen] = useState(false)
+	const [tagModalOpen, setTagModalOpen] = useState(false)
 	const [categoryList, setCategoryList] = useState<string[]>([])
 	const [newCategory, setNewCategory] = useState('')
 
@@ -237,6 +247,10 @@ export default function BlogPage() {
 		setCategoryList(nextList)
 	}, [])
 
+	const handleRenameTag = useCallback((from: string, to: string) => {
+		setEditableItems(prev => renameTag(prev, from, to))
+	}, [])
+
 	const handleCancel = useCallback(() => {
 		setEditableItems(items)
 		setSelectedSlugs(new Set())
@@ -253,7 +267,11 @@ export default function BlogPage() {
 			const nextCategory = next?.category || ''
 			return originCategory !== nextCategory
 		})
-		const hasChanges = removedSlugs.length > 0 || categoryListChanged || categoryAssignmentChanged
+		const tagsChanged = items.some(origin => {
+			const next = editableItems.find(editItem => editItem.slug === origin.slug)
+			return !!next && JSON.stringify(origin.tags || []) !== JSON.stringify(next.tags || [])
+		})
+		const hasChanges = removedSlugs.length > 0 || categoryListChanged || categoryAssignmentChanged || tagsChanged
 
 		if (!hasChanges) {
 			toast.info('没有需要保存的改动')
@@ -266,6 +284,7 @@ export default function BlogPage() {
 			setEditMode(false)
 			setSelectedSlugs(new Set())
 			setCategoryModalOpen(false)
+			setTagModalOpen(false)
 		} catch (error: any) {
 			console.error(error)
 			toast.error(error?.message || '保存失败')
@@ -349,6 +368,33 @@ export default function BlogPage() {
 								{option.label}
 							</motion.button>
 						))}
+						<div className='mx-1 h-4 w-px bg-[#D9D9D9]' />
+						<motion.button
+							whileHover={{ scale: 1.05 }}
+							whileTap={{ scale: 0.95 }}
+							onClick={() => setSearchOpen(true)}
+							title='搜索 (Ctrl+K)'
+							className='text-secondary hover:text-brand flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-medium transition-all hover:bg-white/60'>
+							<Search className='size-3.5' />
+							搜索
+						</motion.button>
+						<Link
+							href='/blog/tags'
+							className='text-secondary hover:text-brand rounded-lg px-3 py-1.5 text-xs font-medium transition-all hover:bg-white/60'>
+							标签
+						</Link>
+						<Link
+							href='/blog/popular'
+							className='text-secondary hover:text-brand rounded-lg px-3 py-1.5 text-xs font-medium transition-all hover:bg-white/60'>
+							热门
+						</Link>
+						{isAuth && (
+							<Link
+								href='/blog/comments'
+								className='text-secondary hover:text-brand rounded-lg px-3 py-1.5 text-xs font-medium transition-all hover:bg-white/60'>
+								审核评论
+							</Link>
+						)}
 					</motion.div>
 				)}
 
@@ -365,7 +411,13 @@ export default function BlogPage() {
 							className='card relative w-full max-w-[840px] space-y-6'>
 							<div className='mb-3 flex items-center justify-between gap-3 text-base'>
 								<div className='flex items-center gap-3'>
-									<div className='font-medium'>{getGroupLabel(groupKey)}</div>
+									{displayMode === 'category' && groupKey !== '未分类' && !editMode ? (
+										<Link href={categoryHref(groupKey)} className='hover:text-brand font-medium transition-colors'>
+											{getGroupLabel(groupKey)}
+										</Link>
+									) : (
+										<div className='font-medium'>{getGroupLabel(groupKey)}</div>
+									)}
 									<div className='h-2 w-2 rounded-full bg-[#D9D9D9]'></div>
 									<div className='text-secondary text-sm'>{group.items.length} 篇文章</div>
 								</div>
@@ -390,7 +442,6 @@ export default function BlogPage() {
 							</div>
 							<div>
 								{group.items.map(it => {
-									const hasRead = isRead(it.slug)
 									const isSelected = selectedSlugs.has(it.slug)
 									return (
 										<Link
@@ -427,8 +478,14 @@ export default function BlogPage() {
 													editMode ? null : 'group-hover:text-brand group-hover:translate-x-2'
 												)}>
 												{it.title || it.slug}
-												{hasRead && <span className='text-secondary ml-2 text-xs'>[已阅读]</span>}
+												{it.protected && <Lock className='text-secondary ml-1.5 inline size-3.5 align-[-2px]' aria-label='已加密' />}
+												{isScheduled(it) && (
+													<span className='ml-2 rounded bg-amber-50 px-1.5 py-0.5 text-xs text-amber-700'>定时 {dayjs(it.publishAt).format('MM-DD HH:mm')}</span>
+												)}
+												<ReadingProgressRing record={readArticles[it.slug]} className='ml-2' />
 											</div>
+											{!!it.stats?.readingMinutes && <span className='text-secondary shrink-0 text-xs max-sm:hidden'>{it.stats.readingMinutes} 分钟</span>}
+											{!!viewCounts[it.slug] && <span className='text-secondary shrink-0 text-xs max-sm:hidden'>{viewCounts[it.slug]} 阅读</span>}
 											<div className='flex flex-wrap items-center gap-2 max-sm:hidden'>
 												{(it.tags || []).map(t => (
 													<span key={t} className='text-secondary text-sm'>
@@ -481,6 +538,14 @@ export default function BlogPage() {
 								分类
 							</motion.button>
 						)}
+						<motion.button
+							whileHover={{ scale: 1.05 }}
+							whileTap={{ scale: 0.95 }}
+							onClick={() => setTagModalOpen(true)}
+							disabled={saving}
+							className='rounded-xl border bg-white/60 px-4 py-2 text-sm transition-colors hover:bg-white/80'>
+							标签
+						</motion.button>
 						<motion.button
 							whileHover={{ scale: 1.05 }}
 							whileTap={{ scale: 0.95 }}
@@ -533,6 +598,8 @@ export default function BlogPage() {
 				editableItems={editableItems}
 				onAssignCategory={handleAssignCategory}
 			/>
+
+			<TagModal open={tagModalOpen} onClose={() => setTagModalOpen(false)} editableItems={editableItems} onRenameTag={handleRenameTag} />
 		</>
 	)
 }
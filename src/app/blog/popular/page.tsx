@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+import { SITE_ORIGIN } from '@/consts'
+import { PopularPosts } from '../components/popular-posts'
+
+export const metadata: Metadata = {
+	title: '热门文章',
+	alternates: {
+		canonical: `${SITE_ORIGIN}/blog/popular`
+	}
+}
+
+export default function Page() {
+	return <PopularPosts />
+}
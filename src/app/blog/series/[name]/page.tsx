@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import { SITE_ORIGIN } from '@/consts'
+import { getBlogSeries } from '@/lib/blog-server'
+import { seriesHref } from '@/lib/blog-series'
+import { decodeRouteParam } from '@/lib/utils'
+import { SeriesPosts } from '../../components/series-posts'
+
+type PageProps = {
+	params: Promise<{ name: string }>
+}
+
+export function generateStaticParams(): Array<{ name: string }> {
+	return getBlogSeries().map(name => ({ name }))
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+	const name = decodeRouteParam((await params).name)
+	return {
+		title: `系列：${name}`,
+		alternates: {
+			canonical: `${SITE_ORIGIN}${seriesHref(name)}`
+		}
+	}
+}
+
+export default async function Page({ params }: PageProps) {
+	const name = decodeRouteParam((await params).name)
+	return <SeriesPosts name={name} />
+}
@@ -1,8 +1,8 @@
 import { toast } from 'sonner'
 import { GITHUB_CONFIG } from '@/consts'
 import { getAuthToken } from '@/lib/auth'
-import { createBlob, createCommit, createTree, getRef, listRepoFilesRecursive, toBase64Utf8, type TreeItem, updateRef } from '@/lib/github-client'
-import type { BlogIndexItem } from '@/lib/blog-index'
+import { commitChangeset, createChangeset, listRepoFilesRecursive, readTextFileFromRepo } from '@/lib/github-client'
+import { sortBlogsIndex, syncBlogsIndex, type BlogIndexItem } from '@/lib/blog-index'
 
 export async function saveBlogEdits(originalItems: BlogIndexItem[], nextItems: BlogIndexItem[], categories: string[]): Promise<void> {
 	const removedSlugs = originalItems.filter(item => !nextItems.some(next => next.slug === item.slug)).map(item => item.slug)
@@ -10,11 +10,7 @@ export async function saveBlogEdits(originalItems: BlogIndexItem[], nextItems: B
 
 	const token = await getAuthToken()
 
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
-
-	const treeItems: TreeItem[] = []
+	const changeset = createChangeset()
 
 	for (const slug of uniqueRemoved) {
 		toast.info(`正在收集 ${slug} 文件...`)
@@ -22,52 +18,55 @@ export async function saveBlogEdits(originalItems: BlogIndexItem[], nextItems: B
 		const files = await listRepoFilesRecursive(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, basePath, GITHUB_CONFIG.BRANCH)
 
 		for (const path of files) {
-			treeItems.push({
-				path,
-				mode: '100644',
-				type: 'blob',
-				sha: null
-			})
+			changeset.deleteFile(path)
 		}
 	}
 
-	toast.info('正在更新索引...')
-	const sortedItems = [...nextItems].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-	const indexJson = JSON.stringify(sortedItems, null, 2)
-	const indexBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(indexJson), 'base64')
-	treeItems.push({
-		path: 'public/blogs/index.json',
-		mode: '100644',
-		type: 'blob',
-		sha: indexBlob.sha
+	// tags and category are edited from the list, keep each post's config.json in line with the index
+	const changedItems = nextItems.filter(next => {
+		const origin = originalItems.find(item => item.slug === next.slug)
+		if (!origin) return false
+		return JSON.stringify(origin.tags || []) !== JSON.stringify(next.tags || []) || (origin.category || '') !== (next.category || '')
 	})
 
+	for (const item of changedItems) {
+		toast.info(`正在更新 ${item.slug} 配置...`)
+		const configPath = `public/blogs/${item.slug}/config.json`
+		const configText = await readTextFileFromRepo(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, configPath, GITHUB_CONFIG.BRANCH)
+		if (!configText) continue
+
+		let config: Record<string, unknown>
+		try {
+			config = JSON.parse(configText)
+		} catch {
+			continue
+		}
+		changeset.writeText(configPath, JSON.stringify({ ...config, tags: item.tags || [], category: item.category }, null, 2))
+	}
+
 	toast.info('正在更新分类...')
 	const uniqueCategories = Array.from(new Set(categories.map(c => c.trim()).filter(Boolean)))
 	const categoriesJson = JSON.stringify({ categories: uniqueCategories }, null, 2)
-	const categoriesBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(categoriesJson), 'base64')
-	treeItems.push({
-		path: 'public/blogs/categories.json',
-		mode: '100644',
-		type: 'blob',
-		sha: categoriesBlob.sha
-	})
+	changeset.writeText('public/blogs/categories.json', categoriesJson)
 
-	toast.info('正在创建提交...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
 	const actionLabels: string[] = []
 	if (uniqueRemoved.length > 0) {
 		actionLabels.push(`删除:${uniqueRemoved.join(',')}`)
 	}
+	if (changedItems.length > 0) {
+		actionLabels.push(`更新元信息:${changedItems.map(item => item.slug).join(',')}`)
+	}
 	actionLabels.push('更新索引')
 	if (uniqueCategories.length > 0) {
 		actionLabels.push('更新分类')
 	}
 	const commitLabel = actionLabels.join(' | ')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitLabel, treeData.sha, [latestCommitSha])
 
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	// originalItems is what the edit started from, the index is merged against the branch head by slug
+	toast.info('正在更新索引...')
+	await commitChangeset(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, GITHUB_CONFIG.BRANCH, changeset, commitLabel, {
+		prepare: syncBlogsIndex(changeset, token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, { items: originalItems }, sortBlogsIndex(nextItems))
+	})
 
 	toast.success('保存成功！请等待页面部署后刷新')
 }
@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import { SITE_ORIGIN } from '@/consts'
+import { getBlogIndex } from '@/lib/blog-server'
+import { countTags, tagHref } from '@/lib/blog-tags'
+import { decodeRouteParam } from '@/lib/utils'
+import { TagPosts } from '../../components/tag-posts'
+
+type PageProps = {
+	params: Promise<{ tag: string }>
+}
+
+export function generateStaticParams(): Array<{ tag: string }> {
+	return countTags(getBlogIndex()).map(({ tag }) => ({ tag }))
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+	const tag = decodeRouteParam((await params).tag)
+	return {
+		title: `#${tag}`,
+		alternates: {
+			canonical: `${SITE_ORIGIN}${tagHref(tag)}`
+		}
+	}
+}
+
+export default async function Page({ params }: PageProps) {
+	const tag = decodeRouteParam((await params).tag)
+	return <TagPosts tag={tag} />
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+import { SITE_ORIGIN } from '@/consts'
+import { TagCloud } from '../components/tag-cloud'
+
+export const metadata: Metadata = {
+	title: '标签',
+	alternates: {
+		canonical: `${SITE_ORIGIN}/blog/tags`
+	}
+}
+
+export default function Page() {
+	return <TagCloud />
+}
@@ -1,3 +1,20 @@
+// Length of a post, computed from the markdown at publish time
+export type BlogStats = {
+	// CJK characters count as one word each
+	words: number
+	// non whitespace characters of the visible text
+	characters: number
+	readingMinutes: number
+	codeBlocks: number
+	images: number
+}
+
+// Multi-part posts share a series name, order is the part number within it
+export type BlogSeries = {
+	name: string
+	order: number
+}
+
 export type BlogIndexItem = {
 	slug: string
 	title: string
@@ -7,6 +24,20 @@ export type BlogIndexItem = {
 	cover?: string
 	hidden?: boolean
 	category?: string
+	// ISO time, the post stays out of public lists and feeds until then
+	publishAt?: string
+	stats?: BlogStats
+	series?: BlogSeries
+	// index.md is encrypted, readers unlock it with the post password
+	protected?: boolean
+}
+
+// Optional markdown syntax, a missing key falls back to the renderer default
+export type MarkdownFeatures = {
+	footnotes?: boolean
+	admonitions?: boolean
+	math?: boolean
+	definitionLists?: boolean
 }
 
 export type BlogConfig = {
@@ -17,5 +48,36 @@ export type BlogConfig = {
 	cover?: string
 	hidden?: boolean
 	category?: string
+	publishAt?: string
+	markdown?: MarkdownFeatures
+	series?: BlogSeries
+	protected?: boolean
 }
 
+// Entry of public/blogs/search.json, rebuilt whenever the blogs index is committed
+export type SearchDocument = {
+	slug: string
+	title: string
+	summary?: string
+	tags: string[]
+	category?: string
+	date: string
+	hidden?: boolean
+	publishAt?: string
+	// markdown body reduced to plain text
+	text: string
+}
+
+// Comment as returned by /api/comments, replies point at their parent
+export type BlogComment = {
+	id: number
+	slug: string
+	parentId: number | null
+	author: string
+	// raw text, rendered with the markdown-lite subset on the client
+	content: string
+	status: 'pending' | 'approved'
+	// written by the site owner while authenticated
+	isOwner: boolean
+	createdAt: string
+}
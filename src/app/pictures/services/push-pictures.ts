@@ -1,5 +1,5 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, readTextFileFromRepo, type TreeItem } from '@/lib/github-client'
-import { fileToBase64NoPrefix, hashFileSHA256 } from '@/lib/file-utils'
+import { commitChangeset, createChangeset, readTextFileFromRepo } from '@/lib/github-client'
+import { hashFileSHA256 } from '@/lib/file-utils'
 import { getAuthToken } from '@/lib/auth'
 import { GITHUB_CONFIG } from '@/consts'
 import type { ImageItem } from '../../projects/components/image-upload-dialog'
@@ -17,15 +17,11 @@ export async function pushPictures(params: PushPicturesParams): Promise<void> {
 
 	const token = await getAuthToken()
 
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
-
 	const commitMessage = `更新图床列表`
 
 	toast.info('正在准备文件...')
 
-	const treeItems: TreeItem[] = []
+	const changeset = createChangeset()
 	const uploadedHashes = new Set<string>()
 	let updatedPictures = [...pictures]
 
@@ -40,14 +36,7 @@ export async function pushPictures(params: PushPicturesParams): Promise<void> {
 
 				if (!uploadedHashes.has(hash)) {
 					const path = `public/images/pictures/${filename}`
-					const contentBase64 = await fileToBase64NoPrefix(imageItem.file)
-					const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-					treeItems.push({
-						path,
-						mode: '100644',
-						type: 'blob',
-						sha: blobData.sha
-					})
+					changeset.writeBinary(path, imageItem.file)
 					uploadedHashes.add(hash)
 				}
 
@@ -112,12 +101,7 @@ export async function pushPictures(params: PushPicturesParams): Promise<void> {
 					// 这是一个本地图片文件，需要删除
 					const filename = url.replace('/images/pictures/', '')
 					const path = `public/images/pictures/${filename}`
-					treeItems.push({
-						path,
-						mode: '100644',
-						type: 'blob',
-						sha: null
-					})
+					changeset.deleteFile(path)
 				}
 			}
 		} catch (error) {
@@ -126,22 +110,9 @@ export async function pushPictures(params: PushPicturesParams): Promise<void> {
 	}
 
 	const picturesJson = JSON.stringify(updatedPictures, null, '\t')
-	const picturesBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(picturesJson), 'base64')
-	treeItems.push({
-		path: 'src/app/pictures/list.json',
-		mode: '100644',
-		type: 'blob',
-		sha: picturesBlob.sha
-	})
-
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	changeset.writeText('src/app/pictures/list.json', picturesJson)
+
+	await commitChangeset(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, GITHUB_CONFIG.BRANCH, changeset, commitMessage)
 
 	toast.success('发布成功！')
 }
@@ -4,10 +4,12 @@ import { useParams } from 'next/navigation'
 import { useWriteStore } from '../stores/write-store'
 import { usePreviewStore } from '../stores/preview-store'
 import { useLoadBlog } from '../hooks/use-load-blog'
+import { useDraftAutosave } from '../hooks/use-draft-autosave'
 import { WriteEditor } from '../components/editor'
 import { WriteSidebar } from '../components/sidebar'
 import { WriteActions } from '../components/actions'
 import { WritePreview } from '../components/preview'
+import { UnlockDialog } from '../components/unlock-dialog'
 
 export default function EditBlogPage() {
 	const params = useParams() as { slug?: string }
@@ -16,11 +18,18 @@ export default function EditBlogPage() {
 	const { form, cover } = useWriteStore()
 	const { isPreview, closePreview } = usePreviewStore()
 	const { loading } = useLoadBlog(slug)
+	useDraftAutosave()
 
 	const coverPreviewUrl = cover ? (cover.type === 'url' ? cover.url : cover.previewUrl) : null
 
+	// protected posts ask for their password while loading
 	if (loading) {
-		return <div className='text-secondary flex h-screen items-center justify-center text-sm'>加载中...</div>
+		return (
+			<>
+				<div className='text-secondary flex h-screen items-center justify-center text-sm'>加载中...</div>
+				<UnlockDialog />
+			</>
+		)
 	}
 
 	if (!slug) {
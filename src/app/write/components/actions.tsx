@@ -5,12 +5,18 @@ import { useRouter } from 'next/navigation'
 import { useWriteStore } from '../stores/write-store'
 import { usePreviewStore } from '../stores/preview-store'
 import { usePublish } from '../hooks/use-publish'
+import { HistoryDialog } from './history-dialog'
 
-export function WriteActions() {
+type WriteActionsProps = {
+	onOpenDrafts?: () => void
+}
+
+export function WriteActions({ onOpenDrafts }: WriteActionsProps = {}) {
 	const { loading, mode, form, loadBlogForEdit, originalSlug, updateForm } = useWriteStore()
 	const { openPreview } = usePreviewStore()
 	const { isAuth, onChoosePrivateKey, onPublish, onDelete } = usePublish()
 	const [saving, setSaving] = useState(false)
+	const [historyOpen, setHistoryOpen] = useState(false)
 	const keyInputRef = useRef<HTMLInputElement>(null)
 	const mdInputRef = useRef<HTMLInputElement>(null)
 	const router = useRouter()
@@ -47,6 +53,14 @@ export function WriteActions() {
 		}
 	}
 
+	const handleOpenHistory = () => {
+		if (!isAuth) {
+			toast.info('请先导入密钥')
+			return
+		}
+		setHistoryOpen(true)
+	}
+
 	const handleImportMd = () => {
 		mdInputRef.current?.click()
 	}
@@ -88,6 +102,17 @@ export function WriteActions() {
 							<div className='rounded-lg border bg-blue-50 px-4 py-2 text-sm text-blue-700'>编辑模式</div>
 						</motion.div>
 
+						<motion.button
+							initial={{ opacity: 0, scale: 0.6 }}
+							animate={{ opacity: 1, scale: 1 }}
+							whileHover={{ scale: 1.05 }}
+							whileTap={{ scale: 0.95 }}
+							className='bg-card rounded-xl border px-4 py-2 text-sm'
+							disabled={loading}
+							onClick={handleOpenHistory}>
+							历史
+						</motion.button>
+
 						<motion.button
 							initial={{ opacity: 0, scale: 0.6 }}
 							animate={{ opacity: 1, scale: 1 }}
@@ -110,6 +135,18 @@ export function WriteActions() {
 					</>
 				)}
 
+				{onOpenDrafts && (
+					<motion.button
+						initial={{ opacity: 0, scale: 0.6 }}
+						animate={{ opacity: 1, scale: 1 }}
+						whileHover={{ scale: 1.05 }}
+						whileTap={{ scale: 0.95 }}
+						className='bg-card rounded-xl border px-4 py-2 text-sm'
+						disabled={loading}
+						onClick={onOpenDrafts}>
+						草稿
+					</motion.button>
+				)}
 				<motion.button
 					initial={{ opacity: 0, scale: 0.6 }}
 					animate={{ opacity: 1, scale: 1 }}
@@ -141,6 +178,8 @@ export function WriteActions() {
 					{buttonText}
 				</motion.button>
 			</ul>
+
+			{mode === 'edit' && originalSlug && <HistoryDialog open={historyOpen} onClose={() => setHistoryOpen(false)} slug={originalSlug} />}
 		</>
 	)
 }
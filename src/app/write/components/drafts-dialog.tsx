@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import dayjs from 'dayjs'
+import { toast } from 'sonner'
+import { DialogModal } from '@/components/dialog-modal'
+import { useWriteStore } from '../stores/write-store'
+import { deleteDraft, listDrafts, type Draft } from '../services/drafts'
+
+type DraftsDialogProps = {
+	open: boolean
+	onClose: () => void
+}
+
+export function DraftsDialog({ open, onClose }: DraftsDialogProps) {
+	const { restoreDraft } = useWriteStore()
+	const [drafts, setDrafts] = useState<Draft[]>([])
+	const [loading, setLoading] = useState(false)
+
+	useEffect(() => {
+		if (!open) return
+		setLoading(true)
+		listDrafts()
+			.then(setDrafts)
+			.catch((err: any) => {
+				console.error(err)
+				toast.error(err?.message || '读取草稿失败')
+			})
+			.finally(() => setLoading(false))
+	}, [open])
+
+	const handleRestore = (draft: Draft) => {
+		restoreDraft(draft)
+		toast.success('已恢复草稿')
+		onClose()
+	}
+
+	const handleDiscard = async (draft: Draft) => {
+		if (!window.confirm(`丢弃草稿《${draft.form.title || draft.form.slug || '未命名'}》吗？该操作不可恢复。`)) return
+		try {
+			await deleteDraft(draft.key)
+			setDrafts(prev => prev.filter(it => it.key !== draft.key))
+		} catch (err: any) {
+			console.error(err)
+			toast.error(err?.message || '丢弃草稿失败')
+		}
+	}
+
+	return (
+		<DialogModal open={open} onClose={onClose} className='card w-[560px] max-w-[90vw] rounded-2xl p-6'>
+			<div className='mb-2 text-lg font-semibold'>本地草稿</div>
+			<div className='text-secondary mb-4 text-sm'>以下内容尚未发布，保存在当前浏览器中。</div>
+
+			<div className='max-h-[420px] space-y-3 overflow-y-auto'>
+				{loading && <div className='text-secondary text-sm'>加载中...</div>}
+				{!loading && drafts.length === 0 && <div className='text-secondary text-sm'>暂无草稿</div>}
+				{drafts.map(draft => {
+					const imageCount = draft.images.filter(it => it.type === 'file').length
+					return (
+						<div key={draft.key} className='flex items-center gap-3 rounded-xl border bg-white/60 p-3'>
+							<div className='min-w-0 flex-1'>
+								<div className='flex items-center gap-2'>
+									<span className='truncate text-sm font-medium'>{draft.form.title || '未命名'}</span>
+									{draft.mode === 'edit' && <span className='shrink-0 rounded bg-blue-50 px-1.5 py-0.5 text-xs text-blue-700'>编辑</span>}
+								</div>
+								<div className='text-secondary mt-1 truncate text-xs'>
+									{draft.form.slug || '无 slug'} · {dayjs(draft.updatedAt).format('YYYY-MM-DD HH:mm')}
+									{imageCount > 0 && ` · ${imageCount} 张本地图片`}
+								</div>
+							</div>
+							<button onClick={() => handleDiscard(draft)} className='rounded-lg border border-red-200 bg-red-50 px-3 py-1.5 text-xs text-red-600 hover:bg-red-100'>
+								丢弃
+							</button>
+							<button onClick={() => handleRestore(draft)} className='brand-btn px-3 py-1.5 text-xs'>
+								恢复
+							</button>
+						</div>
+					)
+				})}
+			</div>
+
+			<div className='mt-6 flex justify-end'>
+				<button onClick={onClose} className='bg-card rounded-xl border px-6 py-2 text-sm'>
+					关闭
+				</button>
+			</div>
+		</DialogModal>
+	)
+}
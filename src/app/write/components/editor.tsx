@@ -1,13 +1,17 @@
 import { motion } from 'motion/react'
 import { useWriteStore } from '../stores/write-store'
 import { INIT_DELAY } from '@/consts'
-import { useRef } from 'react'
+import { useDeferredValue, useMemo, useRef } from 'react'
+import { computeBlogStats } from '@/lib/blog-stats'
 
 const defaultText = 'text'
 
 export function WriteEditor() {
 	const { form, updateForm, images, addFiles } = useWriteStore()
 	const textareaRef = useRef<HTMLTextAreaElement>(null)
+	// counting runs over the whole post, let typing win
+	const deferredMd = useDeferredValue(form.md)
+	const stats = useMemo(() => computeBlogStats(deferredMd), [deferredMd])
 
 	const insertText = (text: string) => {
 		const textarea = textareaRef.current
@@ -186,6 +190,13 @@ export function WriteEditor() {
 				onKeyDown={handleKeyDown}
 				onPaste={handlePaste}
 			/>
+			<div className='text-secondary mt-2 flex flex-wrap justify-end gap-x-3 px-2 text-xs'>
+				<span>{stats.words} 字</span>
+				<span>{stats.characters} 字符</span>
+				<span>阅读约 {stats.readingMinutes} 分钟</span>
+				<span>{stats.codeBlocks} 段代码</span>
+				<span>{stats.images} 张图片</span>
+			</div>
 		</motion.div>
 	)
 }
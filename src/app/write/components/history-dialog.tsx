@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import dayjs from 'dayjs'
+import { toast } from 'sonner'
+import { DialogModal } from '@/components/dialog-modal'
+import { Select } from '@/components/select'
+import { diffLines } from '@/lib/line-diff'
+import { cn } from '@/lib/utils'
+import { useWriteStore } from '../stores/write-store'
+import { listBlogRevisions, loadBlogRevision, type BlogRevision, type BlogRevisionContent } from '../services/blog-history'
+
+type HistoryDialogProps = {
+	open: boolean
+	onClose: () => void
+	slug: string
+}
+
+const CURRENT = 'current'
+
+export function HistoryDialog({ open, onClose, slug }: HistoryDialogProps) {
+	const { form, restoreRevision } = useWriteStore()
+	const [revisions, setRevisions] = useState<BlogRevision[]>([])
+	const [loading, setLoading] = useState(false)
+	const [contents, setContents] = useState<Record<string, BlogRevisionContent>>({})
+	const [leftSha, setLeftSha] = useState<string | null>(null)
+	const [rightSha, setRightSha] = useState<string>(CURRENT)
+	const requestedRef = useRef<Set<string>>(new Set())
+
+	useEffect(() => {
+		if (!open || !slug) return
+		let cancelled = false
+		setLoading(true)
+		listBlogRevisions(slug)
+			.then(list => {
+				if (cancelled) return
+				setRevisions(list)
+				setLeftSha(list[0]?.sha ?? null)
+			})
+			.catch((err: any) => {
+				console.error(err)
+				toast.error(err?.message || '加载历史失败')
+			})
+			.finally(() => {
+				if (!cancelled) setLoading(false)
+			})
+		return () => {
+			cancelled = true
+		}
+	}, [open, slug])
+
+	useEffect(() => {
+		const missing = [leftSha, rightSha].filter((sha): sha is string => !!sha && sha !== CURRENT && !requestedRef.current.has(sha))
+		for (const sha of missing) {
+			requestedRef.current.add(sha)
+			loadBlogRevision(slug, sha, form.password)
+				.then(content => setContents(prev => ({ ...prev, [sha]: content })))
+				.catch((err: any) => {
+					requestedRef.current.delete(sha)
+					console.error(err)
+					toast.error(err?.message || '加载版本失败')
+				})
+		}
+	}, [leftSha, rightSha, slug])
+
+	const leftText = leftSha ? contents[leftSha]?.markdown : undefined
+	const rightText = rightSha === CURRENT ? form.md : contents[rightSha]?.markdown
+
+	const rows = useMemo(() => {
+		if (leftText === undefined || rightText === undefined) return null
+		return diffLines(leftText, rightText)
+	}, [leftText, rightText])
+
+	const rightOptions = [
+		{ value: CURRENT, label: '编辑器中的内容' },
+		...revisions.map(r => ({ value: r.sha, label: `${r.sha.slice(0, 7)} · ${dayjs(r.date).format('YYYY-MM-DD HH:mm')}` }))
+	]
+
+	const handleRestore = () => {
+		const content = leftSha ? contents[leftSha] : undefined
+		if (!content) return
+		if (!window.confirm('用所选版本替换编辑器中的内容吗？未发布的修改将丢失。')) return
+		restoreRevision(content.markdown, content.config)
+		toast.success('已恢复所选版本，发布后生效')
+		onClose()
+	}
+
+	return (
+		<DialogModal open={open} onClose={onClose} className='card flex h-[80vh] w-[1100px] max-w-[94vw] flex-col rounded-2xl p-6'>
+			<div className='mb-4 flex items-center justify-between'>
+				<div className='text-lg font-semibold'>历史版本</div>
+				<button onClick={onClose} className='text-secondary hover:text-brand text-sm'>
+					关闭
+				</button>
+			</div>
+
+			<div className='flex min-h-0 flex-1 gap-4'>
+				<div className='w-[260px] shrink-0 space-y-2 overflow-y-auto'>
+					{loading && <div className='text-secondary text-sm'>加载中...</div>}
+					{!loading && revisions.length === 0 && <div className='text-secondary text-sm'>暂无历史</div>}
+					{revisions.map(revision => (
+						<button
+							key={revision.sha}
+							onClick={() => setLeftSha(revision.sha)}
+							className={cn(
+								'block w-full rounded-lg border px-3 py-2 text-left text-xs transition-colors',
+								leftSha === revision.sha ? 'border-brand bg-brand/5' : 'hover:border-brand/40 bg-white/60'
+							)}>
+							<div className='truncate text-sm font-medium'>{revision.message.split('\n')[0]}</div>
+							<div className='text-secondary mt-1'>
+								{revision.sha.slice(0, 7)} · {revision.author} · {dayjs(revision.date).format('YYYY-MM-DD HH:mm')}
+							</div>
+						</button>
+					))}
+				</div>
+
+				<div className='flex min-w-0 flex-1 flex-col'>
+					<div className='mb-3 flex items-center gap-3 text-sm'>
+						<div className='text-secondary flex-1 truncate'>{leftSha ? `所选版本 ${leftSha.slice(0, 7)}` : '请选择版本'}</div>
+						<span className='text-secondary'>对比</span>
+						<Select className='w-[240px] text-sm' value={rightSha} onChange={setRightSha} options={rightOptions} />
+						<button onClick={handleRestore} disabled={!leftSha || !contents[leftSha]} className='brand-btn px-4 py-2 text-sm whitespace-nowrap'>
+							恢复所选版本
+						</button>
+					</div>
+
+					<div className='min-h-0 flex-1 overflow-auto rounded-xl border bg-white/60 font-mono text-xs'>
+						{!rows && leftSha && <div className='text-secondary p-3'>加载中...</div>}
+						{rows && (
+							<table className='w-full table-fixed border-collapse'>
+								<tbody>
+									{rows.map((row, index) => (
+										<tr key={index}>
+											<td className='text-secondary w-10 px-2 text-right align-top select-none'>{row.left?.no}</td>
+											<td className={cn('px-2 align-top break-all whitespace-pre-wrap', (row.type === 'removed' || row.type === 'changed') && 'bg-red-50 text-red-700')}>
+												{row.left?.text}
+											</td>
+											<td className='text-secondary w-10 border-l px-2 text-right align-top select-none'>{row.right?.no}</td>
+											<td className={cn('px-2 align-top break-all whitespace-pre-wrap', (row.type === 'added' || row.type === 'changed') && 'bg-green-50 text-green-700')}>
+												{row.right?.text}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						)}
+					</div>
+				</div>
+			</div>
+		</DialogModal>
+	)
+}
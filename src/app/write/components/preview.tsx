@@ -23,6 +23,9 @@ export function WritePreview({ form, coverPreviewUrl, onClose, slug }: WritePrev
 					summary={form.summary}
 					cover={coverPreviewUrl || undefined}
 					slug={slug}
+					markdownFeatures={form.markdown}
+					stats={previewData.stats}
+					series={form.series}
 				/>
 			</div>
 			<motion.button
@@ -1,9 +1,20 @@
+import { useRef } from 'react'
 import { motion } from 'motion/react'
-import { useWriteStore } from '../../stores/write-store'
+import { formatDateTimeLocal, useWriteStore } from '../../stores/write-store'
 import { TagInput } from '../ui/tag-input'
 import { useCategories } from '@/hooks/use-categories'
+import { useBlogIndex } from '@/hooks/use-blog-index'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 import { Select } from '@/components/select'
+import { DEFAULT_MARKDOWN_FEATURES, type MarkdownPluginName } from '@/lib/markdown-plugins'
+import { getSeriesParts, listSeries } from '@/lib/blog-series'
+
+const MARKDOWN_FEATURE_LABELS: Record<MarkdownPluginName, string> = {
+	footnotes: '脚注',
+	admonitions: '提示块',
+	math: '数学公式',
+	definitionLists: '定义列表'
+}
 
 type MetaSectionProps = {
 	delay?: number
@@ -19,6 +30,37 @@ export function MetaSection({ delay = 0 }: MetaSectionProps) {
 
 	const categoryOptions = [{ value: '', label: '未分类' }, ...categories.map(cat => ({ value: cat, label: cat }))]
 
+	const { items } = useBlogIndex()
+	const seriesNames = listSeries(items)
+
+	// name the order was last computed for, a manual order survives until the name changes
+	const committedSeriesRef = useRef<string | undefined>(undefined)
+
+	const commitSeriesName = (name: string) => {
+		const trimmed = name.trim()
+		if (trimmed === committedSeriesRef.current) return
+		committedSeriesRef.current = trimmed
+		if (!trimmed) {
+			updateForm({ series: undefined })
+			return
+		}
+		// a post already in this series keeps its part, joining one appends it as the next part
+		const own = items.find(item => item.slug === form.slug && item.series?.name === trimmed)
+		const order = own?.series ? own.series.order : getSeriesParts(items.filter(item => item.slug !== form.slug), trimmed).length + 1
+		updateForm({ series: { name: trimmed, order } })
+	}
+
+	const handleSeriesName = (name: string) => {
+		if (!name) {
+			committedSeriesRef.current = ''
+			updateForm({ series: undefined })
+			return
+		}
+		// picking from the datalist is a complete name, typed text waits for blur
+		if (seriesNames.includes(name)) commitSeriesName(name)
+		else updateForm({ series: { name, order: form.series?.order ?? 1 } })
+	}
+
 	return (
 		<motion.div initial={{ opacity: 0, scale: 0.8 }} animate={{ opacity: 1, scale: 1 }} transition={{ delay }} className='card relative'>
 			<h2 className='text-sm'>元信息</h2>
@@ -36,6 +78,31 @@ export function MetaSection({ delay = 0 }: MetaSectionProps) {
 				{enableCategories && (
 					<Select className='w-full text-sm' value={form.category || ''} onChange={value => updateForm({ category: value })} options={categoryOptions} />
 				)}
+				<div className='flex gap-2'>
+					<input
+						list='write-series-options'
+						placeholder='系列（可选）'
+						className='bg-card min-w-0 flex-1 rounded-lg border px-3 py-2 text-sm'
+						value={form.series?.name || ''}
+						onChange={e => handleSeriesName(e.target.value)}
+						onBlur={e => commitSeriesName(e.target.value)}
+					/>
+					{!!form.series?.name && (
+						<input
+							type='number'
+							min={1}
+							title='第几篇'
+							className='bg-card w-20 rounded-lg border px-3 py-2 text-sm'
+							value={form.series.order}
+							onChange={e => updateForm({ series: { name: form.series?.name || '', order: Number(e.target.value) } })}
+						/>
+					)}
+					<datalist id='write-series-options'>
+						{seriesNames.map(name => (
+							<option key={name} value={name} />
+						))}
+					</datalist>
+				</div>
 				<input
 					type='datetime-local'
 					placeholder='日期'
@@ -58,6 +125,52 @@ export function MetaSection({ delay = 0 }: MetaSectionProps) {
 						隐藏此文章（仅管理员可见）
 					</label>
 				</div>
+
+				<input
+					type='password'
+					autoComplete='new-password'
+					placeholder='访问密码（可选，设置后正文加密发布）'
+					className='bg-card w-full rounded-lg border px-3 py-2 text-sm'
+					value={form.password || ''}
+					onChange={e => updateForm({ password: e.target.value })}
+				/>
+
+				<div className='flex items-center gap-2'>
+					<input
+						type='checkbox'
+						id='schedule-check'
+						checked={!!form.publishAt}
+						onChange={e => updateForm({ publishAt: e.target.checked ? form.date || formatDateTimeLocal() : '' })}
+						className='h-4 w-4 rounded border-gray-300'
+					/>
+					<label htmlFor='schedule-check' className='cursor-pointer text-sm text-gray-600 select-none'>
+						定时发布
+					</label>
+				</div>
+				{!!form.publishAt && (
+					<input
+						type='datetime-local'
+						placeholder='发布时间'
+						className='bg-card w-full rounded-lg border px-3 py-2 text-sm'
+						value={form.publishAt}
+						onChange={e => updateForm({ publishAt: e.target.value })}
+					/>
+				)}
+
+				<div className='flex flex-wrap items-center gap-x-4 gap-y-2 pt-1'>
+					<span className='text-sm text-gray-600'>扩展语法</span>
+					{(Object.keys(MARKDOWN_FEATURE_LABELS) as MarkdownPluginName[]).map(name => (
+						<label key={name} className='flex cursor-pointer items-center gap-1.5 text-sm text-gray-600 select-none'>
+							<input
+								type='checkbox'
+								checked={form.markdown?.[name] ?? DEFAULT_MARKDOWN_FEATURES[name]}
+								onChange={e => updateForm({ markdown: { ...form.markdown, [name]: e.target.checked } })}
+								className='h-4 w-4 rounded border-gray-300'
+							/>
+							{MARKDOWN_FEATURE_LABELS[name]}
+						</label>
+					))}
+				</div>
 			</div>
 		</motion.div>
 	)
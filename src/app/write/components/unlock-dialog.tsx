@@ -0,0 +1,47 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { DialogModal } from '@/components/dialog-modal'
+import { normalizePassword } from '@/lib/protected-post'
+import { useUnlockStore } from '../stores/unlock-store'
+
+export function UnlockDialog() {
+	const { open, resolve } = useUnlockStore()
+	const [password, setPassword] = useState('')
+
+	useEffect(() => {
+		if (open) setPassword('')
+	}, [open])
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault()
+		const normalized = normalizePassword(password)
+		if (normalized) resolve(normalized)
+	}
+
+	return (
+		<DialogModal open={open} onClose={() => resolve(null)} disableCloseOnOverlay className='card w-[380px] max-w-[90vw] rounded-2xl p-6'>
+			<form onSubmit={handleSubmit}>
+				<div className='mb-2 text-lg font-semibold'>文章已加密</div>
+				<div className='text-secondary mb-4 text-sm'>请输入密码后编辑，正文会在浏览器中解密。</div>
+				<input
+					type='password'
+					autoFocus
+					autoComplete='current-password'
+					placeholder='密码'
+					value={password}
+					onChange={e => setPassword(e.target.value)}
+					className='bg-card w-full rounded-lg border px-3 py-2 text-sm'
+				/>
+				<div className='mt-6 flex justify-end gap-3'>
+					<button type='button' onClick={() => resolve(null)} className='bg-card rounded-xl border px-6 py-2 text-sm'>
+						取消
+					</button>
+					<button type='submit' disabled={!normalizePassword(password)} className='brand-btn px-6 disabled:opacity-60'>
+						解锁
+					</button>
+				</div>
+			</form>
+		</DialogModal>
+	)
+}
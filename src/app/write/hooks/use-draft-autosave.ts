@@ -0,0 +1,69 @@
+import { useEffect } from 'react'
+import { useWriteStore } from '../stores/write-store'
+import { deleteDraft, getDraftKey, saveDraft, toDraftImage } from '../services/drafts'
+
+const SAVE_DELAY = 800
+
+type WriteState = ReturnType<typeof useWriteStore.getState>
+
+const isEmpty = (state: WriteState) => !state.form.title.trim() && !state.form.md.trim() && state.images.length === 0 && !state.cover
+
+async function persist(state: WriteState) {
+	await saveDraft({
+		key: getDraftKey(state.mode, state.originalSlug, state.form.slug),
+		mode: state.mode,
+		originalSlug: state.originalSlug,
+		form: state.form,
+		images: state.images.map(toDraftImage),
+		cover: state.cover ? toDraftImage(state.cover) : null,
+		updatedAt: Date.now()
+	})
+}
+
+/**
+ * Save the editor content to IndexedDB shortly after every user change
+ */
+export function useDraftAutosave() {
+	useEffect(() => {
+		let timer: ReturnType<typeof setTimeout> | null = null
+		let lastKey: string | null = null
+
+		const flush = () => {
+			if (timer) clearTimeout(timer)
+			timer = null
+
+			const state = useWriteStore.getState()
+			// Publishing in progress, the draft is removed once it succeeds
+			if (state.loading || isEmpty(state)) return
+
+			const key = getDraftKey(state.mode, state.originalSlug, state.form.slug)
+			// The slug of a new article is still being typed, keep a single draft for it
+			if (lastKey && lastKey !== key) {
+				deleteDraft(lastKey).catch(console.error)
+			}
+			lastKey = key
+
+			persist(state).catch(err => console.error('Failed to save draft:', err))
+		}
+
+		const unsubscribe = useWriteStore.subscribe((state, prev) => {
+			if (state.form === prev.form && state.images === prev.images && state.cover === prev.cover) return
+			// Content that was just loaded from the repo is not a draft
+			if (state.loading || prev.loading) return
+
+			if (timer) clearTimeout(timer)
+			timer = setTimeout(flush, SAVE_DELAY)
+		})
+
+		const onPageHide = () => {
+			if (timer) flush()
+		}
+		window.addEventListener('pagehide', onPageHide)
+
+		return () => {
+			unsubscribe()
+			window.removeEventListener('pagehide', onPageHide)
+			if (timer) flush()
+		}
+	}, [])
+}
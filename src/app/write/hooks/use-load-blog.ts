@@ -1,18 +1,36 @@
 import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
 import { useWriteStore } from '../stores/write-store'
 import { toast } from 'sonner'
+import { loadDraft } from '../services/drafts'
 
 export function useLoadBlog(slug?: string) {
-	const { loadBlogForEdit, loading } = useWriteStore()
+	const { loadBlogForEdit, restoreDraft, loading } = useWriteStore()
+	const router = useRouter()
 
 	useEffect(() => {
 		if (slug) {
-			loadBlogForEdit(slug).catch(err => {
-				console.error('Failed to load blog:', err)
-				toast.error('加载博客失败')
-			})
+			loadBlogForEdit(slug)
+				.then(() => loadDraft(slug).catch(() => null))
+				.then(draft => {
+					if (!draft) return
+					toast('该文章有未发布的本地草稿', {
+						description: `保存于 ${new Date(draft.updatedAt).toLocaleString()}`,
+						duration: 10000,
+						action: { label: '恢复', onClick: () => restoreDraft(draft) }
+					})
+				})
+				.catch(err => {
+					// the password dialog was cancelled, go back to the post instead of editing it empty
+					if (err?.name === 'AbortError') {
+						router.replace(`/blog/${slug}`)
+						return
+					}
+					console.error('Failed to load blog:', err)
+					toast.error('加载博客失败')
+				})
 		}
-	}, [slug, loadBlogForEdit])
+	}, [slug, loadBlogForEdit, restoreDraft, router])
 
 	return { loading }
 }
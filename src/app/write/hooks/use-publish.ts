@@ -3,6 +3,7 @@ import { readFileAsText } from '@/lib/file-utils'
 import { toast } from 'sonner'
 import { pushBlog } from '../services/push-blog'
 import { deleteBlog } from '../services/delete-blog'
+import { deleteDraft, getDraftKey } from '../services/drafts'
 import { useWriteStore } from '../stores/write-store'
 import { useAuthStore } from '@/hooks/use-auth'
 
@@ -28,6 +29,7 @@ export function usePublish() {
 				mode,
 				originalSlug
 			})
+			await deleteDraft(getDraftKey(mode, originalSlug, form.slug)).catch(console.error)
 
 			const successMsg = mode === 'edit' ? '更新成功' : '发布成功'
 			toast.success(successMsg)
@@ -48,6 +50,7 @@ export function usePublish() {
 		try {
 			setLoading(true)
 			await deleteBlog(targetSlug)
+			await deleteDraft(targetSlug).catch(console.error)
 		} catch (err: any) {
 			console.error(err)
 			toast.error(err?.message || '删除失败')
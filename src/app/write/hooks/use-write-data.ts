@@ -1,6 +1,7 @@
 import { useMemo } from 'react'
 import dayjs from 'dayjs'
 import { useWriteStore } from '../stores/write-store'
+import { computeBlogStats } from '@/lib/blog-stats'
 
 export function useWriteData() {
 	const { form, images } = useWriteStore()
@@ -17,12 +18,15 @@ export function useWriteData() {
 		return mdForPreview
 	}, [form.md, images])
 
+	const stats = useMemo(() => computeBlogStats(form.md), [form.md])
+
 	const title = form.title || 'Untitled'
 	const date = dayjs(form.date).format('YYYY年 M月 D日')
 
 	return {
 		markdown: processedMarkdown,
 		title,
-		date
+		date,
+		stats
 	}
 }
@@ -6,11 +6,22 @@ import { WriteEditor } from './components/editor'
 import { WriteSidebar } from './components/sidebar'
 import { WriteActions } from './components/actions'
 import { WritePreview } from './components/preview'
-import { useEffect } from 'react'
+import { DraftsDialog } from './components/drafts-dialog'
+import { useDraftAutosave } from './hooks/use-draft-autosave'
+import { listDrafts } from './services/drafts'
+import { useEffect, useState } from 'react'
 
 export default function WritePage() {
 	const { form, cover, reset } = useWriteStore()
-	useEffect(() => reset(), [])
+	const [draftsOpen, setDraftsOpen] = useState(false)
+	useEffect(() => {
+		reset()
+		// Offer to recover unpublished drafts
+		listDrafts()
+			.then(drafts => drafts.length > 0 && setDraftsOpen(true))
+			.catch(console.error)
+	}, [])
+	useDraftAutosave()
 	const { isPreview, closePreview } = usePreviewStore()
 
 	const coverPreviewUrl = cover ? (cover.type === 'url' ? cover.url : cover.previewUrl) : null
@@ -24,7 +35,8 @@ export default function WritePage() {
 				<WriteSidebar />
 			</div>
 
-			<WriteActions />
+			<WriteActions onOpenDrafts={() => setDraftsOpen(true)} />
+			<DraftsDialog open={draftsOpen} onClose={() => setDraftsOpen(false)} />
 		</>
 	)
 }
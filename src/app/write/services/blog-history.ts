@@ -0,0 +1,57 @@
+import { getAuthToken } from '@/lib/auth'
+import { GITHUB_CONFIG } from '@/consts'
+import { listCommits, readTextFileFromRepo, type CommitInfo } from '@/lib/github-client'
+import type { BlogConfig } from '@/app/blog/types'
+import { decryptMarkdown } from '@/lib/protected-post'
+
+export type BlogRevision = CommitInfo
+
+export type BlogRevisionContent = {
+	sha: string
+	markdown: string
+	config: BlogConfig
+}
+
+/**
+ * Commits touching public/blogs/{slug}, newest first
+ */
+export async function listBlogRevisions(slug: string): Promise<BlogRevision[]> {
+	if (!slug) throw new Error('需要 slug')
+	const token = await getAuthToken()
+	return listCommits(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, {
+		path: `public/blogs/${slug}`,
+		ref: GITHUB_CONFIG.BRANCH,
+		perPage: 50
+	})
+}
+
+/**
+ * Read index.md and config.json of a post as they were at the given commit
+ * Protected revisions are decrypted with `password`, loading fails when it does not match so cipher text never reaches the editor
+ */
+export async function loadBlogRevision(slug: string, sha: string, password?: string): Promise<BlogRevisionContent> {
+	const token = await getAuthToken()
+	const basePath = `public/blogs/${slug}`
+
+	const [markdown, configText] = await Promise.all([
+		readTextFileFromRepo(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `${basePath}/index.md`, sha),
+		readTextFileFromRepo(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `${basePath}/config.json`, sha)
+	])
+
+	let config: BlogConfig = {}
+	if (configText) {
+		try {
+			config = JSON.parse(configText)
+		} catch {
+			config = {}
+		}
+	}
+
+	if (config.protected && markdown) {
+		const plain = password ? await decryptMarkdown(markdown, password) : null
+		if (plain === null) throw new Error('当前密码无法解密这个版本')
+		return { sha, markdown: plain, config }
+	}
+
+	return { sha, markdown: markdown ?? '', config }
+}
@@ -0,0 +1,81 @@
+import type { ImageItem, PublishForm } from '../types'
+
+const DB_NAME = 'blog-write-drafts'
+const DB_VERSION = 1
+const STORE_NAME = 'drafts'
+
+// Key used for a new article that has no slug yet
+export const UNTITLED_DRAFT_KEY = '__untitled__'
+
+// Files are structured-cloneable, so they go into IndexedDB as-is; preview urls are recreated on restore
+export type DraftImage = { id: string; type: 'url'; url: string } | { id: string; type: 'file'; file: File; filename: string; hash?: string }
+
+export type Draft = {
+	key: string
+	mode: 'create' | 'edit'
+	originalSlug: string | null
+	form: PublishForm
+	images: DraftImage[]
+	cover: DraftImage | null
+	updatedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+	if (typeof indexedDB === 'undefined') return Promise.reject(new Error('当前环境不支持 IndexedDB'))
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION)
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+					request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+				}
+			}
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => {
+				dbPromise = null
+				reject(request.error)
+			}
+		})
+	}
+	return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+	const db = await openDb()
+	return new Promise((resolve, reject) => {
+		const tx = db.transaction(STORE_NAME, mode)
+		const request = run(tx.objectStore(STORE_NAME))
+		tx.oncomplete = () => resolve(request.result)
+		tx.onerror = () => reject(tx.error)
+		tx.onabort = () => reject(tx.error)
+	})
+}
+
+export const getDraftKey = (mode: 'create' | 'edit', originalSlug: string | null, slug: string) =>
+	(mode === 'edit' && originalSlug) || slug.trim() || UNTITLED_DRAFT_KEY
+
+export const toDraftImage = (item: ImageItem): DraftImage =>
+	item.type === 'url' ? { id: item.id, type: 'url', url: item.url } : { id: item.id, type: 'file', file: item.file, filename: item.filename, hash: item.hash }
+
+export async function saveDraft(draft: Draft): Promise<void> {
+	await withStore('readwrite', store => store.put(draft))
+}
+
+export async function loadDraft(key: string): Promise<Draft | null> {
+	const draft = await withStore<Draft | undefined>('readonly', store => store.get(key))
+	return draft ?? null
+}
+
+/**
+ * All saved drafts, most recently updated first
+ */
+export async function listDrafts(): Promise<Draft[]> {
+	const drafts = await withStore<Draft[]>('readonly', store => store.getAll())
+	return drafts.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function deleteDraft(key: string): Promise<void> {
+	await withStore('readwrite', store => store.delete(key))
+}
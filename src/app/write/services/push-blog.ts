@@ -1,12 +1,15 @@
-import { toBase64Utf8, getRef, createTree, createCommit, updateRef, createBlob, type TreeItem } from '@/lib/github-client'
-import { fileToBase64NoPrefix, hashFileSHA256 } from '@/lib/file-utils'
-import { prepareBlogsIndex } from '@/lib/blog-index'
+import { commitChangeset, createChangeset } from '@/lib/github-client'
+import { hashFileSHA256 } from '@/lib/file-utils'
+import { readBlogsIndex, syncBlogsIndex, upsertIndexItem } from '@/lib/blog-index'
 import { getAuthToken } from '@/lib/auth'
 import { GITHUB_CONFIG } from '@/consts'
 import type { ImageItem } from '../types'
+import type { BlogSeries, MarkdownFeatures } from '@/app/blog/types'
 import { getFileExt } from '@/lib/utils'
 import { toast } from 'sonner'
 import { formatDateTimeLocal } from '../stores/write-store'
+import { computeBlogStats } from '@/lib/blog-stats'
+import { encryptMarkdown, normalizePassword } from '@/lib/protected-post'
 
 export type PushBlogParams = {
 	form: {
@@ -18,6 +21,10 @@ export type PushBlogParams = {
 		summary?: string
 		hidden?: boolean
 		category?: string
+		publishAt?: string
+		markdown?: MarkdownFeatures
+		series?: BlogSeries
+		password?: string
 	}
 	cover?: ImageItem | null
 	images?: ImageItem[]
@@ -37,10 +44,6 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 	// 获取认证 token（自动从全局认证状态获取）
 	const token = await getAuthToken()
 
-	toast.info('正在获取分支信息...')
-	const refData = await getRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`)
-	const latestCommitSha = refData.sha
-
 	const basePath = `public/blogs/${form.slug}`
 	const commitMessage = mode === 'edit' ? `更新文章: ${form.slug}` : `新增文章: ${form.slug}`
 
@@ -65,8 +68,8 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 	let mdToUpload = form.md
 	let coverPath: string | undefined
 
-	// prepare tree items for all files
-	const treeItems: TreeItem[] = []
+	// collect all files of this publish
+	const changeset = createChangeset()
 
 	// process all images
 	if (allLocalImages.length > 0) {
@@ -78,16 +81,7 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 			const publicPath = `/blogs/${form.slug}/${filename}`
 
 			if (!uploadedHashes.has(hash)) {
-				const path = `${basePath}/${filename}`
-				const contentBase64 = await fileToBase64NoPrefix(img.file)
-				// create blob for image
-				const blobData = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, contentBase64, 'base64')
-				treeItems.push({
-					path,
-					mode: '100644',
-					type: 'blob',
-					sha: blobData.sha
-				})
+				changeset.writeBinary(`${basePath}/${filename}`, img.file)
 				uploadedHashes.add(hash)
 			}
 
@@ -109,17 +103,16 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 
 	toast.info('正在创建文件...')
 
-	// create blob for index.md
-	const mdBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(mdToUpload), 'base64')
-	treeItems.push({
-		path: `${basePath}/index.md`,
-		mode: '100644',
-		type: 'blob',
-		sha: mdBlob.sha
-	})
+	// only the cipher text is committed, the repo and /blogs/<slug>/index.md never see the plain markdown
+	const password = normalizePassword(form.password)
+	changeset.writeText(`${basePath}/index.md`, password ? await encryptMarkdown(mdToUpload, password) : mdToUpload)
 
-	// create blob for config.json
+	// config.json
 	const dateStr = form.date || formatDateTimeLocal()
+	// datetime-local is in the author's timezone, store an absolute time
+	const publishAt = form.publishAt ? new Date(form.publishAt).toISOString() : undefined
+	const seriesName = form.series?.name.trim()
+	const series = seriesName ? { name: seriesName, order: Math.max(1, Math.floor(Number(form.series?.order)) || 1) } : undefined
 	const config = {
 		title: form.title,
 		tags: form.tags,
@@ -127,53 +120,35 @@ export async function pushBlog(params: PushBlogParams): Promise<void> {
 		summary: form.summary,
 		cover: coverPath,
 		hidden: form.hidden,
-		category: form.category
+		category: form.category,
+		publishAt,
+		markdown: form.markdown && Object.keys(form.markdown).length > 0 ? form.markdown : undefined,
+		series,
+		protected: password ? true : undefined
 	}
 
-	const configBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(JSON.stringify(config, null, 2)), 'base64')
-	treeItems.push({
-		path: `${basePath}/config.json`,
-		mode: '100644',
-		type: 'blob',
-		sha: configBlob.sha
-	})
+	changeset.writeText(`${basePath}/config.json`, JSON.stringify(config, null, 2))
 
-	// prepare and create blob for blogs index
-	const indexJson = await prepareBlogsIndex(
-		token,
-		GITHUB_CONFIG.OWNER,
-		GITHUB_CONFIG.REPO,
-		{
-			slug: form.slug,
-			title: form.title,
-			tags: form.tags,
-			date: dateStr,
-			summary: form.summary,
-			cover: coverPath,
-			hidden: form.hidden,
-			category: form.category
-		},
-		GITHUB_CONFIG.BRANCH
-	)
-	const indexBlob = await createBlob(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, toBase64Utf8(indexJson), 'base64')
-	treeItems.push({
-		path: 'public/blogs/index.json',
-		mode: '100644',
-		type: 'blob',
-		sha: indexBlob.sha
+	// blogs index, merged again with the branch head right before committing
+	const baseIndex = await readBlogsIndex(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, GITHUB_CONFIG.BRANCH)
+	const nextIndex = upsertIndexItem(baseIndex.items, {
+		slug: form.slug,
+		title: form.title,
+		tags: form.tags,
+		date: dateStr,
+		summary: form.summary,
+		cover: coverPath,
+		hidden: form.hidden,
+		category: form.category,
+		publishAt,
+		stats: computeBlogStats(mdToUpload),
+		series,
+		protected: password ? true : undefined
 	})
 
-	// create tree
-	toast.info('正在创建文件树...')
-	const treeData = await createTree(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, treeItems, latestCommitSha)
-
-	// create commit
-	toast.info('正在创建提交...')
-	const commitData = await createCommit(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, commitMessage, treeData.sha, [latestCommitSha])
-
-	// update branch reference
-	toast.info('正在更新分支...')
-	await updateRef(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, `heads/${GITHUB_CONFIG.BRANCH}`, commitData.sha)
+	await commitChangeset(token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, GITHUB_CONFIG.BRANCH, changeset, commitMessage, {
+		prepare: syncBlogsIndex(changeset, token, GITHUB_CONFIG.OWNER, GITHUB_CONFIG.REPO, baseIndex, nextIndex)
+	})
 
 	toast.success('发布成功！')
 }
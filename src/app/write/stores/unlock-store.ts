@@ -0,0 +1,23 @@
+import { create } from 'zustand'
+
+type UnlockStore = {
+	open: boolean
+	pending: ((password: string | null) => void) | null
+	// Open the password dialog and wait for the input, null when cancelled
+	request: () => Promise<string | null>
+	resolve: (password: string | null) => void
+}
+
+export const useUnlockStore = create<UnlockStore>((set, get) => ({
+	open: false,
+	pending: null,
+	request: () => {
+		// a previous unanswered request counts as cancelled
+		get().pending?.(null)
+		return new Promise(resolve => set({ open: true, pending: resolve }))
+	},
+	resolve: password => {
+		get().pending?.(password)
+		set({ open: false, pending: null })
+	}
+}))
@@ -2,7 +2,11 @@ import { create } from 'zustand'
 import { toast } from 'sonner'
 import { hashFileSHA256 } from '@/lib/file-utils'
 import { loadBlog } from '@/lib/load-blog'
+import { decryptMarkdown } from '@/lib/protected-post'
+import type { BlogConfig } from '@/app/blog/types'
 import type { PublishForm, ImageItem } from '../types'
+import type { Draft, DraftImage } from '../services/drafts'
+import { useUnlockStore } from './unlock-store'
 
 export const formatDateTimeLocal = (date: Date = new Date()): string => {
 	const pad = (n: number) => String(n).padStart(2, '0')
@@ -42,6 +46,12 @@ type WriteStore = {
 	// Load blog for editing
 	loadBlogForEdit: (slug: string) => Promise<void>
 
+	// Replace form content with an older revision of the blog
+	restoreRevision: (markdown: string, config: BlogConfig) => void
+
+	// Replace editor state with a locally saved draft
+	restoreDraft: (draft: Draft) => void
+
 	// Reset to create mode
 	reset: () => void
 }
@@ -54,7 +64,77 @@ const initialForm: PublishForm = {
 	date: formatDateTimeLocal(),
 	summary: '',
 	hidden: false,
-	category: ''
+	category: '',
+	publishAt: '',
+	markdown: {}
+}
+
+const createId = () => Math.random().toString(36).slice(2, 10)
+
+// Build editor state (form, content images, cover) from a published blog
+function toEditState(slug: string, markdown: string, config: BlogConfig, password = ''): Pick<WriteStore, 'form' | 'images' | 'cover'> {
+	// Parse images from markdown
+	const images: ImageItem[] = []
+	const imageRegex = /!\[.*?\]\((.*?)\)/g
+	let match
+	while ((match = imageRegex.exec(markdown)) !== null) {
+		const url = match[1]
+		// Skip cover image and only collect content images
+		if (url && url !== config.cover && !url.startsWith('local-image:')) {
+			// Check if already added
+			if (!images.some(img => img.type === 'url' && img.url === url)) {
+				images.push({ id: createId(), type: 'url', url })
+			}
+		}
+	}
+
+	// Set cover
+	const cover: ImageItem | null = config.cover ? { id: createId(), type: 'url', url: config.cover } : null
+
+	return {
+		form: {
+			slug,
+			title: config.title || '',
+			md: markdown,
+			tags: config.tags || [],
+			date: config.date ? formatDateTimeLocal(new Date(config.date)) : formatDateTimeLocal(),
+			summary: config.summary || '',
+			hidden: config.hidden || false,
+			category: config.category || '',
+			publishAt: config.publishAt ? formatDateTimeLocal(new Date(config.publishAt)) : '',
+			markdown: config.markdown || {},
+			series: config.series,
+			password
+		},
+		images,
+		cover
+	}
+}
+
+// protected posts are stored encrypted, editing needs the password again, cancelling rejects with an AbortError
+async function unlockForEdit(markdown: string, config: BlogConfig): Promise<{ markdown: string; password: string }> {
+	if (!config.protected) return { markdown, password: '' }
+	while (true) {
+		const password = await useUnlockStore.getState().request()
+		if (password === null) throw new DOMException('已取消编辑加密文章', 'AbortError')
+		const plain = await decryptMarkdown(markdown, password)
+		if (plain !== null) return { markdown: plain, password }
+		toast.error('密码错误')
+	}
+}
+
+const fromDraftImage = (item: DraftImage): ImageItem =>
+	item.type === 'url' ? item : { id: item.id, type: 'file', file: item.file, previewUrl: URL.createObjectURL(item.file), filename: item.filename, hash: item.hash }
+
+const revokePreviewUrls = (images: ImageItem[], cover: ImageItem | null) => {
+	for (const img of images) {
+		if (img.type === 'file') {
+			URL.revokeObjectURL(img.previewUrl)
+		}
+	}
+	if (cover?.type === 'file') {
+		URL.revokeObjectURL(cover.previewUrl)
+	}
 }
 
 export const useWriteStore = create<WriteStore>((set, get) => ({
@@ -77,7 +157,7 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 			toast.info('该图片已在列表中')
 			return
 		}
-		const id = Math.random().toString(36).slice(2, 10)
+		const id = createId()
 		set(state => ({ images: [{ id, type: 'url', url }, ...state.images] }))
 	},
 	addFiles: async (files: FileList | File[]) => {
@@ -118,7 +198,7 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 		// 处理新图片
 		if (unique.length > 0) {
 			const newItems: ImageItem[] = unique.map(({ file, hash }) => {
-				const id = Math.random().toString(36).slice(2, 10)
+				const id = createId()
 				const previewUrl = URL.createObjectURL(file)
 				const filename = file.name
 				return { id, type: 'file', file, previewUrl, filename, hash }
@@ -159,70 +239,54 @@ export const useWriteStore = create<WriteStore>((set, get) => ({
 		try {
 			set({ loading: true })
 			const blog = await loadBlog(slug)
+			const { markdown, password } = await unlockForEdit(blog.markdown, blog.config)
 
-			// Parse images from markdown
-			const images: ImageItem[] = []
-			const imageRegex = /!\[.*?\]\((.*?)\)/g
-			let match
-			while ((match = imageRegex.exec(blog.markdown)) !== null) {
-				const url = match[1]
-				// Skip cover image and only collect content images
-				if (url && url !== blog.cover && !url.startsWith('local-image:')) {
-					// Check if already added
-					if (!images.some(img => img.type === 'url' && img.url === url)) {
-						const id = Math.random().toString(36).slice(2, 10)
-						images.push({ id, type: 'url', url })
-					}
-				}
-			}
-
-			// Set cover
-			let cover: ImageItem | null = null
-			if (blog.cover) {
-				const coverId = Math.random().toString(36).slice(2, 10)
-				cover = { id: coverId, type: 'url', url: blog.cover }
-			}
-
-			// Set form
 			set({
 				mode: 'edit',
 				originalSlug: slug,
-				form: {
-					slug,
-					title: blog.config.title || '',
-					md: blog.markdown,
-					tags: blog.config.tags || [],
-					date: blog.config.date ? formatDateTimeLocal(new Date(blog.config.date)) : formatDateTimeLocal(),
-					summary: blog.config.summary || '',
-					hidden: blog.config.hidden || false,
-					category: blog.config.category || ''
-				},
-				images,
-				cover,
+				...toEditState(slug, markdown, blog.config, password),
 				loading: false
 			})
 
 			toast.success('博客加载成功')
 		} catch (err: any) {
-			console.error('Failed to load blog:', err)
-			toast.error(err?.message || '加载博客失败')
 			set({ loading: false })
+			if (err?.name !== 'AbortError') {
+				console.error('Failed to load blog:', err)
+				toast.error(err?.message || '加载博客失败')
+			}
 			throw err
 		}
 	},
 
+	restoreRevision: (markdown, config) => {
+		const { form, images, cover } = get()
+		revokePreviewUrls(images, cover)
+		set(toEditState(form.slug, markdown, config, form.password))
+	},
+
+	restoreDraft: draft => {
+		const { images, cover } = get()
+		revokePreviewUrls(images, cover)
+
+		const restoredImages = draft.images.map(fromDraftImage)
+		// The cover usually is one of the content images, share the item so they keep the same preview url
+		const restoredCover = draft.cover ? restoredImages.find(it => it.id === draft.cover!.id) || fromDraftImage(draft.cover) : null
+
+		set({
+			mode: draft.mode,
+			originalSlug: draft.originalSlug,
+			form: { ...initialForm, ...draft.form },
+			images: restoredImages,
+			cover: restoredCover
+		})
+	},
+
 	// Reset to create mode
 	reset: () => {
 		// Revoke object URLs
 		const { images, cover } = get()
-		for (const img of images) {
-			if (img.type === 'file') {
-				URL.revokeObjectURL(img.previewUrl)
-			}
-		}
-		if (cover?.type === 'file') {
-			URL.revokeObjectURL(cover.previewUrl)
-		}
+		revokePreviewUrls(images, cover)
 
 		set({
 			mode: 'create',
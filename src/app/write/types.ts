@@ -1,3 +1,5 @@
+import type { BlogSeries, MarkdownFeatures } from '@/app/blog/types'
+
 export type PublishForm = {
 	slug: string
 	title: string
@@ -7,6 +9,14 @@ export type PublishForm = {
 	summary: string
 	hidden?: boolean
 	category?: string
+	// datetime-local value, empty when published immediately
+	publishAt?: string
+	// markdown plugin toggles, unset keys use the defaults
+	markdown?: MarkdownFeatures
+	// empty name means the post is not part of a series
+	series?: BlogSeries
+	// non empty encrypts the post with this password when publishing
+	password?: string
 }
 
 export type ImageItem = { id: string; type: 'url'; url: string } | { id: string; type: 'file'; file: File; previewUrl: string; filename: string; hash?: string }
@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import dayjs from 'dayjs'
+import { toast } from 'sonner'
+import { BLOG_SLUG_KEY } from '@/consts'
+import { useAuthStore } from '@/hooks/use-auth'
+import { useComments, type CommentNode } from '@/hooks/use-comments'
+import { renderCommentMarkdown } from '@/lib/comment-markdown'
+import { cn } from '@/lib/utils'
+
+const AUTHOR_STORAGE_KEY = 'blog-comment-author'
+// deeper replies are shown at this level, keeps narrow screens readable
+const MAX_DEPTH = 3
+
+type CommentFormProps = {
+	parentId?: number | null
+	onSubmit: (input: { author: string; content: string; parentId?: number | null }) => Promise<void>
+	onCancel?: () => void
+}
+
+function CommentForm({ parentId = null, onSubmit, onCancel }: CommentFormProps) {
+	const [author, setAuthor] = useState('')
+	const [content, setContent] = useState('')
+	const [submitting, setSubmitting] = useState(false)
+
+	useEffect(() => {
+		setAuthor(localStorage.getItem(AUTHOR_STORAGE_KEY) || '')
+	}, [])
+
+	const handleSubmit = async (event: React.FormEvent) => {
+		event.preventDefault()
+		if (!author.trim() || !content.trim()) {
+			toast.info('请填写昵称和评论内容')
+			return
+		}
+		setSubmitting(true)
+		try {
+			localStorage.setItem(AUTHOR_STORAGE_KEY, author.trim())
+			await onSubmit({ author: author.trim(), content: content.trim(), parentId })
+			setContent('')
+			onCancel?.()
+		} catch {
+			// the caller reports the error, keep the text for another try
+		} finally {
+			setSubmitting(false)
+		}
+	}
+
+	return (
+		<form onSubmit={handleSubmit} className='space-y-2'>
+			<input
+				value={author}
+				onChange={e => setAuthor(e.target.value)}
+				maxLength={32}
+				placeholder='昵称'
+				className='bg-card w-full max-w-[240px] rounded-lg border px-3 py-2 text-sm'
+			/>
+			<textarea
+				value={content}
+				onChange={e => setContent(e.target.value)}
+				maxLength={2000}
+				rows={parentId ? 2 : 3}
+				placeholder={parentId ? '写下你的回复...' : '写下你的评论...'}
+				className='bg-card block w-full resize-y rounded-xl border p-3 text-sm'
+			/>
+			<div className='flex items-center justify-between gap-3'>
+				<span className='text-secondary text-xs'>支持 **粗体** *斜体* `代码` [链接](https://...)</span>
+				<div className='flex gap-2'>
+					{onCancel && (
+						<button type='button' onClick={onCancel} className='rounded-lg border bg-white/60 px-3 py-1.5 text-xs'>
+							取消
+						</button>
+					)}
+					<button type='submit' disabled={submitting} className='brand-btn px-4 py-1.5 text-xs disabled:opacity-60'>
+						{submitting ? '提交中...' : parentId ? '回复' : '发表评论'}
+					</button>
+				</div>
+			</div>
+		</form>
+	)
+}
+
+type CommentItemProps = {
+	node: CommentNode
+	depth: number
+	moderating: boolean
+	replyTo: number | null
+	onReply: (id: number | null) => void
+	onSubmit: CommentFormProps['onSubmit']
+	onApprove: (id: number) => void
+	onDelete: (id: number) => void
+}
+
+function CommentItem({ node, depth, moderating, replyTo, onReply, onSubmit, onApprove, onDelete }: CommentItemProps) {
+	const pending = node.status === 'pending'
+
+	return (
+		<div className={cn(depth > 0 && depth <= MAX_DEPTH && 'border-l pl-4')}>
+			<div className={cn('rounded-xl py-2', pending && 'bg-amber-50/60 px-3')}>
+				<div className='flex flex-wrap items-center gap-2 text-xs'>
+					<span className='text-sm font-medium'>{node.author}</span>
+					{node.isOwner && <span className='bg-brand/10 text-brand rounded px-1.5 py-0.5'>博主</span>}
+					{pending && <span className='rounded bg-amber-100 px-1.5 py-0.5 text-amber-700'>待审核</span>}
+					<span className='text-secondary'>{dayjs(node.createdAt).format('YYYY-MM-DD HH:mm')}</span>
+				</div>
+				<div className='comment-content mt-1 text-sm leading-relaxed break-words' dangerouslySetInnerHTML={{ __html: renderCommentMarkdown(node.content) }} />
+				<div className='text-secondary mt-1 flex gap-3 text-xs'>
+					{!pending && (
+						<button onClick={() => onReply(replyTo === node.id ? null : node.id)} className='hover:text-brand'>
+							回复
+						</button>
+					)}
+					{moderating && pending && (
+						<button onClick={() => onApprove(node.id)} className='hover:text-brand'>
+							通过
+						</button>
+					)}
+					{moderating && (
+						<button onClick={() => onDelete(node.id)} className='hover:text-red-500'>
+							删除
+						</button>
+					)}
+				</div>
+			</div>
+
+			{replyTo === node.id && (
+				<div className='mt-2 mb-3'>
+					<CommentForm parentId={node.id} onSubmit={onSubmit} onCancel={() => onReply(null)} />
+				</div>
+			)}
+
+			{node.replies.length > 0 && (
+				<div className='mt-1 space-y-1'>
+					{node.replies.map(reply => (
+						<CommentItem
+							key={reply.id}
+							node={reply}
+							depth={depth + 1}
+							moderating={moderating}
+							replyTo={replyTo}
+							onReply={onReply}
+							onSubmit={onSubmit}
+							onApprove={onApprove}
+							onDelete={onDelete}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
+
+type BlogCommentsProps = {
+	slug: string
+}
+
+/**
+ * Threaded comments under a post, new comments wait in a moderation queue until the owner approves them
+ */
+export function BlogComments({ slug }: BlogCommentsProps) {
+	const { isAuth } = useAuthStore()
+	const [moderating, setModerating] = useState(false)
+	const [replyTo, setReplyTo] = useState<number | null>(null)
+	const { comments, tree, pendingCount, loading, error, addComment, approveComment, deleteComment } = useComments(BLOG_SLUG_KEY + slug, moderating)
+
+	const handleSubmit = async (input: { author: string; content: string; parentId?: number | null }) => {
+		try {
+			const comment = await addComment(input)
+			toast.success(comment?.status === 'approved' ? '评论已发布' : '评论已提交，审核通过后显示')
+		} catch (err: any) {
+			if (err?.reason === 'rate_limited') toast('评论太频繁啦，请稍后再试')
+			else toast.error('评论提交失败')
+			throw err
+		}
+	}
+
+	const handleApprove = async (id: number) => {
+		try {
+			await approveComment(id)
+			toast.success('已通过')
+		} catch {
+			toast.error('操作失败')
+		}
+	}
+
+	const handleDelete = async (id: number) => {
+		if (!window.confirm('删除这条评论及其所有回复？')) return
+		try {
+			await deleteComment(id)
+			toast.success('已删除')
+		} catch {
+			toast.error('删除失败')
+		}
+	}
+
+	const approvedCount = comments.length - pendingCount
+
+	return (
+		<section className='mt-12 border-t pt-6'>
+			<div className='mb-4 flex items-center justify-between gap-3'>
+				<h2 className='text-secondary text-sm font-medium'>评论{approvedCount > 0 && ` (${approvedCount})`}</h2>
+				{isAuth && (
+					<button onClick={() => setModerating(value => !value)} className={cn('text-xs', moderating ? 'text-brand' : 'text-secondary hover:text-brand')}>
+						{moderating ? `退出审核${pendingCount > 0 ? `（${pendingCount} 条待审核）` : ''}` : '审核评论'}
+					</button>
+				)}
+			</div>
+
+			<CommentForm onSubmit={handleSubmit} />
+
+			<div className='mt-6 space-y-3'>
+				{loading && <div className='text-secondary text-sm'>加载中...</div>}
+				{!loading && error && <div className='text-secondary text-sm'>评论加载失败</div>}
+				{!loading && !error && tree.length === 0 && <div className='text-secondary text-sm'>还没有评论，来抢沙发吧</div>}
+				{tree.map(node => (
+					<CommentItem
+						key={node.id}
+						node={node}
+						depth={0}
+						moderating={moderating}
+						replyTo={replyTo}
+						onReply={setReplyTo}
+						onSubmit={handleSubmit}
+						onApprove={handleApprove}
+						onDelete={handleDelete}
+					/>
+				))}
+			</div>
+		</section>
+	)
+}
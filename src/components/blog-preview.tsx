@@ -1,11 +1,21 @@
 'use client'
 
+import Link from 'next/link'
 import { motion } from 'motion/react'
 import { INIT_DELAY } from '@/consts'
 import { useMarkdownRender } from '@/hooks/use-markdown-render'
 import { useSize } from '@/hooks/use-size'
 import { BlogSidebar } from '@/components/blog-sidebar'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
+import type { MarkdownRenderResult } from '@/lib/markdown-renderer'
+import { tagHref } from '@/lib/blog-tags'
+import { SeriesNavigator } from '@/components/series-navigator'
+import { RelatedPosts } from '@/components/related-posts'
+import { PostNavigation } from '@/components/post-navigation'
+import { BlogComments } from '@/components/blog-comments'
+import { ReactionBar } from '@/components/reaction-bar'
+import { usePostView } from '@/hooks/use-post-views'
+import type { BlogSeries, BlogStats, MarkdownFeatures } from '@/app/blog/types'
 
 type BlogPreviewProps = {
 	markdown: string
@@ -15,13 +25,24 @@ type BlogPreviewProps = {
 	summary?: string
 	cover?: string
 	slug?: string
+	rendered?: MarkdownRenderResult
+	markdownFeatures?: MarkdownFeatures
+	stats?: BlogStats
+	series?: BlogSeries
+	// previous / next links with keyboard shortcuts, off in the editor preview
+	postNavigation?: boolean
+	comments?: boolean
+	reactions?: boolean
+	// record a view and show the count, off in the editor preview
+	views?: boolean
 }
 
-export function BlogPreview({ markdown, title, tags, date, summary, cover, slug }: BlogPreviewProps) {
+export function BlogPreview({ markdown, title, tags, date, summary, cover, slug, rendered, markdownFeatures, stats, series, postNavigation, comments, reactions, views }: BlogPreviewProps) {
 	const { maxSM: isMobile } = useSize()
-	const { content, toc, loading } = useMarkdownRender(markdown)
+	const { content, toc, loading } = useMarkdownRender(markdown, rendered, markdownFeatures)
 	const { siteContent } = useConfigStore()
 	const summaryInContent = siteContent.summaryInContent ?? false
+	const viewCount = usePostView(views && slug ? slug : null)
 
 	if (loading) {
 		return <div className='text-secondary flex h-full items-center justify-center text-sm'>渲染中...</div>
@@ -39,15 +60,38 @@ export function BlogPreview({ markdown, title, tags, date, summary, cover, slug
 
 					<div className='text-secondary mt-4 flex flex-wrap items-center justify-center gap-3 px-8 text-center text-sm'>
 						{tags.map(t => (
-							<span key={t}>#{t}</span>
+							<Link key={t} href={tagHref(t)} className='hover:text-brand transition-colors'>
+								#{t}
+							</Link>
 						))}
 					</div>
 
-					<div className='text-secondary mt-3 text-center text-sm'>{date}</div>
+					<div className='text-secondary mt-3 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-center text-sm'>
+						<span>{date}</span>
+						{!!stats?.words && (
+							<>
+								<span>{stats.words} 字</span>
+								<span>阅读约 {stats.readingMinutes} 分钟</span>
+								{stats.codeBlocks > 0 && <span>{stats.codeBlocks} 段代码</span>}
+								{stats.images > 0 && <span>{stats.images} 张图片</span>}
+							</>
+						)}
+						{!!viewCount && <span>{viewCount} 次阅读</span>}
+					</div>
 
 					{summary && summaryInContent && <div className='text-secondary mt-6 cursor-text text-center text-sm'>“{summary}”</div>}
 
+					{series?.name && <SeriesNavigator series={series} title={title} slug={slug} />}
+
 					<div className='prose mt-6 max-w-none cursor-text'>{content}</div>
+
+					{slug && reactions && <ReactionBar slug={slug} className='mt-10' />}
+
+					{slug && <RelatedPosts slug={slug} />}
+
+					{slug && postNavigation && <PostNavigation slug={slug} />}
+
+					{slug && comments && <BlogComments slug={slug} />}
 				</div>
 			</motion.article>
 
@@ -6,12 +6,7 @@ import LikeButton from '@/components/like-button'
 import { BlogToc } from '@/components/blog-toc'
 import { ScrollTopButton } from '@/components/scroll-top-button'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
-
-type TocItem = {
-	id: string
-	text: string
-	level: number
-}
+import type { TocItem } from '@/lib/markdown-renderer'
 
 type BlogSidebarProps = {
 	cover?: string
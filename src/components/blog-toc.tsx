@@ -3,12 +3,7 @@
 import clsx from 'clsx'
 import { motion } from 'motion/react'
 import { useEffect, useMemo, useState } from 'react'
-
-type TocItem = {
-	id: string
-	text: string
-	level: number
-}
+import type { TocItem } from '@/lib/markdown-renderer'
 
 type BlogTocProps = {
 	toc: TocItem[]
@@ -69,7 +64,7 @@ export function BlogToc({ toc, delay = 0 }: BlogTocProps) {
 				{toc.length === 0 && <div className='text-secondary'>暂无</div>}
 				{toc.map(item => (
 					<a
-						key={item.id + item.level}
+						key={item.id}
 						href={`#${item.id}`}
 						className={clsx('hover:text-brand relative block pl-3 transition-colors', item.id === minActiveId && 'text-brand')}
 						style={{ paddingLeft: (item.level - 1) * 8 }}>
@@ -1,15 +1,43 @@
 'use client'
 
-import { useState } from 'react'
-import { Copy, Check } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Copy, Check, Code, Workflow } from 'lucide-react'
+import { renderMermaid, type DiagramLanguage } from '@/lib/markdown-diagrams'
 
 type CodeBlockProps = {
-	children: React.ReactNode
+	children?: React.ReactNode
 	code: string
+	// diagram fences show the rendered svg, with a toggle back to the source
+	diagram?: DiagramLanguage
+	// pre-rendered svg, client only diagrams (mermaid) are rendered here instead
+	svg?: string
 }
 
-export function CodeBlock({ children, code }: CodeBlockProps) {
+export function CodeBlock({ children, code, diagram, svg }: CodeBlockProps) {
 	const [copied, setCopied] = useState(false)
+	const [showSource, setShowSource] = useState(false)
+	const [clientSvg, setClientSvg] = useState<string | null>(null)
+	const [failed, setFailed] = useState(false)
+
+	useEffect(() => {
+		if (diagram !== 'mermaid') return
+
+		let cancelled = false
+		setFailed(false)
+		renderMermaid(code)
+			.then(result => !cancelled && setClientSvg(result))
+			.catch(error => {
+				console.warn('Failed to render mermaid diagram:', error)
+				if (!cancelled) {
+					setClientSvg(null)
+					setFailed(true)
+				}
+			})
+
+		return () => {
+			cancelled = true
+		}
+	}, [diagram, code])
 
 	const handleCopy = async () => {
 		try {
@@ -21,18 +49,43 @@ export function CodeBlock({ children, code }: CodeBlockProps) {
 		}
 	}
 
+	const diagramSvg = diagram ? (svg ?? clientSvg) : null
+	const sourceBlock = (
+		<pre>
+			<code>{code}</code>
+		</pre>
+	)
+
+	let body = children
+	if (diagram) {
+		if (showSource || failed) body = sourceBlock
+		else if (diagramSvg) body = <div className='diagram' dangerouslySetInnerHTML={{ __html: diagramSvg }} />
+		else body = <div className='diagram diagram-loading'>图表渲染中...</div>
+	}
+
 	return (
 		<div className='code-block-wrapper'>
-			<button
-				type='button'
-				onClick={handleCopy}
-				className='code-block-copy-btn'
-				aria-label='Copy code'
-			>
-				{copied ? <Check size={16} /> : <Copy size={16} />}
-			</button>
-			{children}
+			<div className='code-block-actions'>
+				{diagram && !failed && (
+					<button
+						type='button'
+						onClick={() => setShowSource(value => !value)}
+						className='code-block-copy-btn'
+						aria-label={showSource ? 'View diagram' : 'View source'}
+						title={showSource ? '查看图表' : '查看源码'}>
+						{showSource ? <Workflow size={16} /> : <Code size={16} />}
+					</button>
+				)}
+				<button
+					type='button'
+					onClick={handleCopy}
+					className='code-block-copy-btn'
+					aria-label='Copy code'
+				>
+					{copied ? <Check size={16} /> : <Copy size={16} />}
+				</button>
+			</div>
+			{body}
 		</div>
 	)
 }
-
@@ -0,0 +1,33 @@
+'use client'
+
+import { toast } from 'sonner'
+
+type HeadingAnchorProps = {
+	id: string
+}
+
+/**
+ * Hover "#" after a heading, copies the deep link to that heading
+ */
+export function HeadingAnchor({ id }: HeadingAnchorProps) {
+	const handleClick = async (event: React.MouseEvent<HTMLAnchorElement>) => {
+		event.preventDefault()
+		const url = `${window.location.origin}${window.location.pathname}${window.location.search}#${encodeURIComponent(id)}`
+
+		window.history.replaceState(null, '', `#${encodeURIComponent(id)}`)
+		document.getElementById(id)?.scrollIntoView({ behavior: 'smooth' })
+
+		try {
+			await navigator.clipboard.writeText(url)
+			toast.success('已复制链接')
+		} catch (error) {
+			console.error('Failed to copy link:', error)
+		}
+	}
+
+	return (
+		<a className='heading-anchor' href={`#${id}`} onClick={handleClick} aria-label='复制链接'>
+			#
+		</a>
+	)
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import dayjs from 'dayjs'
+import { DialogModal } from '@/components/dialog-modal'
+import { useIndexConflictStore } from '@/hooks/use-index-conflict'
+import type { BlogIndexItem, BlogsIndexResolution } from '@/lib/blog-index'
+import { cn } from '@/lib/utils'
+
+function EntrySummary({ item }: { item?: BlogIndexItem }) {
+	if (!item) return <div className='text-secondary text-xs'>（已删除）</div>
+
+	return (
+		<div className='space-y-1 text-xs'>
+			<div className='text-sm font-medium'>{item.title || item.slug}</div>
+			<div className='text-secondary'>{dayjs(item.date).format('YYYY-MM-DD HH:mm')}</div>
+			{item.category && <div className='text-secondary'>分类：{item.category}</div>}
+			{item.tags?.length > 0 && <div className='text-secondary'>{item.tags.map(t => `#${t}`).join(' ')}</div>}
+			{item.hidden && <div className='text-secondary'>隐藏</div>}
+			{item.summary && <div className='text-secondary line-clamp-2'>{item.summary}</div>}
+		</div>
+	)
+}
+
+export function IndexConflictDialog() {
+	const { conflicts, resolve } = useIndexConflictStore()
+	const [choices, setChoices] = useState<Record<string, BlogsIndexResolution>>({})
+
+	useEffect(() => {
+		setChoices(Object.fromEntries(conflicts.map(c => [c.slug, 'ours' as const])))
+	}, [conflicts])
+
+	return (
+		<DialogModal open={conflicts.length > 0} onClose={() => resolve(null)} disableCloseOnOverlay className='card w-[720px] max-w-[90vw] rounded-2xl p-6'>
+			<div className='mb-2 text-lg font-semibold'>文章索引冲突</div>
+			<div className='text-secondary mb-4 text-sm'>读取索引后，以下文章已被其他提交修改。请为每篇文章选择要保留的版本。</div>
+
+			<div className='max-h-[420px] space-y-3 overflow-y-auto'>
+				{conflicts.map(conflict => (
+					<div key={conflict.slug} className='rounded-xl border bg-white/60 p-3'>
+						<div className='text-secondary mb-2 text-xs'>{conflict.slug}</div>
+						<div className='grid grid-cols-2 gap-3'>
+							{(['ours', 'theirs'] as const).map(side => (
+								<button
+									key={side}
+									type='button'
+									onClick={() => setChoices(prev => ({ ...prev, [conflict.slug]: side }))}
+									className={cn(
+										'rounded-lg border p-3 text-left transition-colors',
+										choices[conflict.slug] === side ? 'border-brand bg-brand/5' : 'hover:border-brand/40 bg-white/80'
+									)}>
+									<div className='text-brand mb-2 text-xs font-medium'>{side === 'ours' ? '我的版本' : '远端版本'}</div>
+									<EntrySummary item={conflict[side]} />
+								</button>
+							))}
+						</div>
+					</div>
+				))}
+			</div>
+
+			<div className='mt-6 flex justify-end gap-3'>
+				<button onClick={() => resolve(null)} className='bg-card rounded-xl border px-6 py-2 text-sm'>
+					取消
+				</button>
+				<button onClick={() => resolve(choices)} className='brand-btn px-6'>
+					按选择继续
+				</button>
+			</div>
+		</DialogModal>
+	)
+}
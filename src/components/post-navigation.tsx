@@ -0,0 +1,69 @@
+'use client'
+
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import type { BlogIndexItem } from '@/app/blog/types'
+
+type PostNavigationProps = {
+	slug: string
+}
+
+const isTyping = (target: EventTarget | null) =>
+	target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+
+/**
+ * Older / newer post by date, also reachable with the ← / → keys
+ */
+export function PostNavigation({ slug }: PostNavigationProps) {
+	const router = useRouter()
+	const { items } = useBlogIndex()
+
+	const sorted = [...items].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+	const index = sorted.findIndex(item => item.slug === slug)
+	const prev: BlogIndexItem | undefined = index > 0 ? sorted[index - 1] : undefined
+	const next: BlogIndexItem | undefined = index >= 0 ? sorted[index + 1] : undefined
+
+	useEffect(() => {
+		const handler = (event: KeyboardEvent) => {
+			if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey || event.shiftKey || isTyping(event.target)) return
+			const target = event.key === 'ArrowLeft' ? prev : event.key === 'ArrowRight' ? next : undefined
+			if (!target) return
+			event.preventDefault()
+			router.push(`/blog/${target.slug}`)
+		}
+		window.addEventListener('keydown', handler)
+		return () => window.removeEventListener('keydown', handler)
+	}, [prev, next, router])
+
+	if (!prev && !next) return null
+
+	return (
+		<nav className='mt-8 grid grid-cols-2 gap-3 border-t pt-6 text-sm'>
+			{prev ? (
+				<Link href={`/blog/${prev.slug}`} className='group flex min-w-0 flex-col gap-1 rounded-xl p-2 transition-colors hover:bg-white/60'>
+					<span className='text-secondary flex items-center gap-1 text-xs'>
+						<ChevronLeft className='size-3.5' />
+						上一篇
+						<kbd className='ml-1 rounded border px-1 text-[10px] max-sm:hidden'>←</kbd>
+					</span>
+					<span className='group-hover:text-brand truncate font-medium transition-colors'>{prev.title || prev.slug}</span>
+				</Link>
+			) : (
+				<span />
+			)}
+			{next && (
+				<Link href={`/blog/${next.slug}`} className='group flex min-w-0 flex-col items-end gap-1 rounded-xl p-2 text-right transition-colors hover:bg-white/60'>
+					<span className='text-secondary flex items-center gap-1 text-xs'>
+						<kbd className='mr-1 rounded border px-1 text-[10px] max-sm:hidden'>→</kbd>
+						下一篇
+						<ChevronRight className='size-3.5' />
+					</span>
+					<span className='group-hover:text-brand max-w-full truncate font-medium transition-colors'>{next.title || next.slug}</span>
+				</Link>
+			)}
+		</nav>
+	)
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import useSWR from 'swr'
+import { motion, AnimatePresence } from 'motion/react'
+import { toast } from 'sonner'
+import { BLOG_SLUG_KEY } from '@/consts'
+import { REACTIONS, type ReactionCounts, type ReactionKey } from '@/lib/reactions'
+import { cn } from '@/lib/utils'
+
+type ReactionBarProps = {
+	slug: string
+	className?: string
+}
+
+const ENDPOINT = '/api/reactions'
+
+const fetcher = async (url: string): Promise<ReactionCounts> => {
+	const res = await fetch(url, { method: 'GET', cache: 'no-store' })
+	if (!res.ok) return {}
+	const data = await res.json().catch(() => ({}))
+	return data?.counts ?? {}
+}
+
+/**
+ * Emoji reactions, each one counts once per visitor per day like the heart button
+ */
+export function ReactionBar({ slug, className }: ReactionBarProps) {
+	const key = BLOG_SLUG_KEY + slug
+	const url = `${ENDPOINT}?slug=${encodeURIComponent(key)}`
+	const [reacted, setReacted] = useState<ReactionKey[]>([])
+	const [bumped, setBumped] = useState<ReactionKey | null>(null)
+
+	const { data: counts, mutate } = useSWR(url, fetcher, {
+		revalidateOnFocus: false,
+		dedupingInterval: 1000 * 10
+	})
+
+	const handleReact = useCallback(
+		async (reaction: ReactionKey) => {
+			setReacted(prev => (prev.includes(reaction) ? prev : [...prev, reaction]))
+			setBumped(reaction)
+			setTimeout(() => setBumped(current => (current === reaction ? null : current)), 600)
+
+			try {
+				const res = await fetch(`${url}&reaction=${reaction}`, { method: 'POST' })
+				const data = await res.json().catch(() => ({}))
+				if (data.reason == 'rate_limited') toast('今天已经表达过这个心情啦，明天再来吧')
+				const next: ReactionCounts = data?.counts ?? { ...counts, [reaction]: (counts?.[reaction] ?? 0) + 1 }
+				await mutate(next, { revalidate: false })
+			} catch {
+				// ignore
+			}
+		},
+		[url, counts, mutate]
+	)
+
+	return (
+		<div className={cn('flex flex-wrap items-center justify-center gap-2', className)}>
+			{REACTIONS.map(({ key: reaction, emoji, label }) => {
+				const count = counts?.[reaction] ?? 0
+				const active = reacted.includes(reaction)
+				return (
+					<motion.button
+						key={reaction}
+						whileHover={{ scale: 1.05 }}
+						whileTap={{ scale: 0.95 }}
+						title={label}
+						aria-label={label}
+						aria-pressed={active}
+						onClick={() => handleReact(reaction)}
+						className={cn(
+							'flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-sm transition-colors',
+							active ? 'border-brand/40 bg-brand/10' : 'bg-card hover:border-brand/30'
+						)}>
+						<motion.span
+							animate={bumped === reaction ? { scale: [1, 1.4, 1], rotate: [0, -10, 10, 0] } : {}}
+							transition={{ duration: 0.6, ease: 'easeOut' }}>
+							{emoji}
+						</motion.span>
+						<AnimatePresence mode='popLayout' initial={false}>
+							{count > 0 && (
+								<motion.span
+									key={count}
+									initial={{ opacity: 0, y: -6 }}
+									animate={{ opacity: 1, y: 0 }}
+									exit={{ opacity: 0, y: 6 }}
+									className={cn('text-xs tabular-nums', active ? 'text-brand' : 'text-secondary')}>
+									{count}
+								</motion.span>
+							)}
+						</AnimatePresence>
+					</motion.button>
+				)
+			})}
+		</div>
+	)
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import type { ReadingRecord } from '@/hooks/use-read-articles'
+
+type ReadingProgressRingProps = {
+	record?: ReadingRecord
+	size?: number
+	className?: string
+}
+
+/**
+ * How much of a post has been read, a full ring once it is finished
+ */
+export function ReadingProgressRing({ record, size = 14, className }: ReadingProgressRingProps) {
+	if (!record) return null
+
+	const progress = record.finished ? 1 : record.progress
+	const stroke = 2
+	const radius = (size - stroke) / 2
+	const circumference = 2 * Math.PI * radius
+	const label = record.finished ? '已读完' : `已读 ${Math.round(progress * 100)}%`
+
+	return (
+		<span title={label} aria-label={label} className={cn('inline-flex shrink-0 align-middle', className)}>
+			<svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className='-rotate-90'>
+				<circle cx={size / 2} cy={size / 2} r={radius} fill='none' strokeWidth={stroke} className='stroke-black/10' />
+				<circle
+					cx={size / 2}
+					cy={size / 2}
+					r={radius}
+					fill='none'
+					strokeWidth={stroke}
+					strokeLinecap='round'
+					strokeDasharray={circumference}
+					strokeDashoffset={circumference * (1 - progress)}
+					className='stroke-brand transition-[stroke-dashoffset]'
+				/>
+			</svg>
+		</span>
+	)
+}
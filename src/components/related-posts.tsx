@@ -0,0 +1,40 @@
+'use client'
+
+import Link from 'next/link'
+import dayjs from 'dayjs'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { getRelatedPosts } from '@/lib/related-posts'
+
+type RelatedPostsProps = {
+	slug: string
+}
+
+/**
+ * Posts to read next, shown under the article
+ */
+export function RelatedPosts({ slug }: RelatedPostsProps) {
+	const { items, loading } = useBlogIndex()
+	const current = items.find(item => item.slug === slug)
+	if (loading || !current) return null
+
+	const related = getRelatedPosts(items, current)
+	if (related.length === 0) return null
+
+	return (
+		<section className='mt-12 border-t pt-6'>
+			<h2 className='text-secondary mb-3 text-sm font-medium'>相关文章</h2>
+			<div className='grid grid-cols-1 gap-3 sm:grid-cols-2'>
+				{related.map(({ item }) => (
+					<Link key={item.slug} href={`/blog/${item.slug}`} className='bg-card hover:border-brand/40 group flex gap-3 rounded-xl border p-3 transition-colors'>
+						{item.cover && <img src={item.cover} alt='cover' className='h-12 w-12 shrink-0 rounded-lg border object-cover' />}
+						<div className='min-w-0 flex-1'>
+							<div className='group-hover:text-brand truncate text-sm font-medium transition-colors'>{item.title || item.slug}</div>
+							{item.summary && <div className='text-secondary mt-1 line-clamp-1 text-xs'>{item.summary}</div>}
+							<div className='text-secondary mt-1 text-xs'>{dayjs(item.date).format('YYYY-MM-DD')}</div>
+						</div>
+					</Link>
+				))}
+			</div>
+		</section>
+	)
+}
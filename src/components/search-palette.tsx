@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import dayjs from 'dayjs'
+import { Search } from 'lucide-react'
+import { DialogModal } from '@/components/dialog-modal'
+import { useSearch, useSearchPalette } from '@/hooks/use-search'
+import { highlight, snippet } from '@/lib/search'
+import { cn } from '@/lib/utils'
+
+function Highlighted({ text, tokens }: { text: string; tokens: string[] }) {
+	return (
+		<>
+			{highlight(text, tokens).map((part, index) =>
+				part.match ? (
+					<mark key={index} className='bg-brand/20 text-brand rounded-sm'>
+						{part.text}
+					</mark>
+				) : (
+					<span key={index}>{part.text}</span>
+				)
+			)}
+		</>
+	)
+}
+
+export function SearchPalette() {
+	const router = useRouter()
+	const { open, setOpen, toggle } = useSearchPalette()
+	const { search, loading } = useSearch(open)
+	const [query, setQuery] = useState('')
+	const [activeIndex, setActiveIndex] = useState(0)
+	const listRef = useRef<HTMLDivElement>(null)
+
+	const results = useMemo(() => search(query), [search, query])
+
+	useEffect(() => {
+		const handler = (event: KeyboardEvent) => {
+			if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+				event.preventDefault()
+				toggle()
+			}
+		}
+		window.addEventListener('keydown', handler)
+		return () => window.removeEventListener('keydown', handler)
+	}, [toggle])
+
+	useEffect(() => {
+		if (!open) setQuery('')
+	}, [open])
+
+	useEffect(() => setActiveIndex(0), [query])
+
+	useEffect(() => {
+		listRef.current?.querySelector(`[data-index='${activeIndex}']`)?.scrollIntoView({ block: 'nearest' })
+	}, [activeIndex])
+
+	const go = (slug: string) => {
+		setOpen(false)
+		router.push(`/blog/${slug}`)
+	}
+
+	const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === 'ArrowDown') {
+			event.preventDefault()
+			setActiveIndex(index => Math.min(index + 1, results.length - 1))
+		} else if (event.key === 'ArrowUp') {
+			event.preventDefault()
+			setActiveIndex(index => Math.max(index - 1, 0))
+		} else if (event.key === 'Enter' && results[activeIndex]) {
+			event.preventDefault()
+			go(results[activeIndex].doc.slug)
+		}
+	}
+
+	return (
+		<DialogModal open={open} onClose={() => setOpen(false)} className='card w-[640px] max-w-[92vw] rounded-2xl p-0'>
+			<div className='flex items-center gap-3 border-b px-4 py-3'>
+				<Search className='text-secondary size-4 shrink-0' />
+				<input
+					autoFocus
+					value={query}
+					onChange={e => setQuery(e.target.value)}
+					onKeyDown={handleKeyDown}
+					placeholder='搜索文章标题、标签、正文...'
+					className='flex-1 bg-transparent text-sm outline-none'
+				/>
+				<kbd className='text-secondary rounded border px-1.5 py-0.5 text-[10px]'>ESC</kbd>
+			</div>
+
+			<div ref={listRef} className='max-h-[420px] overflow-y-auto p-2'>
+				{loading && <div className='text-secondary px-3 py-6 text-center text-sm'>加载中...</div>}
+				{!loading && query.trim() && results.length === 0 && <div className='text-secondary px-3 py-6 text-center text-sm'>没有找到相关文章</div>}
+				{!loading && !query.trim() && <div className='text-secondary px-3 py-6 text-center text-sm'>输入关键词开始搜索</div>}
+
+				{results.map(({ doc, tokens }, index) => (
+					<button
+						key={doc.slug}
+						data-index={index}
+						onClick={() => go(doc.slug)}
+						onMouseMove={() => setActiveIndex(index)}
+						className={cn('block w-full rounded-xl px-3 py-2.5 text-left transition-colors', index === activeIndex && 'bg-brand/5')}>
+						<div className='flex items-center gap-2'>
+							<span className='flex-1 truncate text-sm font-medium'>
+								<Highlighted text={doc.title || doc.slug} tokens={tokens} />
+							</span>
+							<span className='text-secondary shrink-0 text-xs'>{dayjs(doc.date).format('YYYY-MM-DD')}</span>
+						</div>
+						<div className='text-secondary mt-1 line-clamp-2 text-xs'>
+							<Highlighted text={snippet(doc.text || doc.summary || '', tokens)} tokens={tokens} />
+						</div>
+						{(doc.tags.length > 0 || doc.category) && (
+							<div className='text-secondary mt-1 flex flex-wrap gap-2 text-xs'>
+								{doc.category && <span>{doc.category}</span>}
+								{doc.tags.map(tag => (
+									<span key={tag}>
+										#<Highlighted text={tag} tokens={tokens} />
+									</span>
+								))}
+							</div>
+						)}
+					</button>
+				))}
+			</div>
+		</DialogModal>
+	)
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import Link from 'next/link'
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { useBlogIndex } from '@/hooks/use-blog-index'
+import { getSeriesParts, seriesHref } from '@/lib/blog-series'
+import { cn } from '@/lib/utils'
+import type { BlogIndexItem, BlogSeries } from '@/app/blog/types'
+
+type SeriesNavigatorProps = {
+	series: BlogSeries
+	title: string
+	slug?: string
+}
+
+/**
+ * Parts of the series the post belongs to, with links to the previous and next part
+ */
+export function SeriesNavigator({ series, title, slug }: SeriesNavigatorProps) {
+	const { items, loading } = useBlogIndex()
+	if (loading) return null
+
+	// the post itself may be unpublished or edited (write preview), its series comes from props
+	const indexed = slug ? items.find(item => item.slug === slug) : undefined
+	const current: BlogIndexItem = { ...(indexed ?? { slug: slug || '', tags: [], date: new Date().toISOString() }), title, series }
+	const parts = getSeriesParts([...items.filter(item => item.slug !== slug), current], series.name)
+	const index = parts.findIndex(part => part === current)
+	const prev = parts[index - 1]
+	const next = parts[index + 1]
+
+	return (
+		<nav className='bg-card mt-6 rounded-xl border p-4 text-sm'>
+			<div className='mb-2 flex items-center justify-between gap-3'>
+				<Link href={seriesHref(series.name)} className='hover:text-brand truncate font-medium transition-colors'>
+					系列：{series.name}
+				</Link>
+				<span className='text-secondary shrink-0 text-xs'>
+					第 {index + 1} / {parts.length} 篇
+				</span>
+			</div>
+
+			<ol className='space-y-1'>
+				{parts.map((part, partIndex) => (
+					<li key={part.slug || partIndex} className={cn('truncate', part === current ? 'text-brand font-medium' : 'text-secondary')}>
+						<span className='mr-2 text-xs'>{partIndex + 1}.</span>
+						{part === current || !part.slug ? (
+							part.title || part.slug
+						) : (
+							<Link href={`/blog/${part.slug}`} className='hover:text-brand transition-colors'>
+								{part.title || part.slug}
+							</Link>
+						)}
+					</li>
+				))}
+			</ol>
+
+			{(prev || next) && (
+				<div className='mt-3 flex justify-between gap-3 border-t pt-3 text-xs'>
+					{prev ? (
+						<Link href={`/blog/${prev.slug}`} className='hover:text-brand flex min-w-0 items-center gap-1 transition-colors'>
+							<ChevronLeft className='size-3.5 shrink-0' />
+							<span className='truncate'>{prev.title || prev.slug}</span>
+						</Link>
+					) : (
+						<span />
+					)}
+					{next && (
+						<Link href={`/blog/${next.slug}`} className='hover:text-brand flex min-w-0 items-center gap-1 text-right transition-colors'>
+							<span className='truncate'>{next.title || next.slug}</span>
+							<ChevronRight className='size-3.5 shrink-0' />
+						</Link>
+					)}
+				</div>
+			)}
+		</nav>
+	)
+}
@@ -3,6 +3,11 @@ export const ANIMATION_DELAY = 0.1
 export const CARD_SPACING = 36
 export const CARD_SPACING_SM = 24
 export const BLOG_SLUG_KEY = process.env.BLOG_SLUG_KEY || ''
+export const SITE_ORIGIN = (process.env.NEXT_PUBLIC_SITE_URL || 'https://www.drmrkj.cn').replace(/\/$/, '')
+// diagram rendering service for plantuml fences, sources are sent there so it is off unless set
+export const KROKI_URL = (process.env.NEXT_PUBLIC_KROKI_URL || '').replace(/\/$/, '')
+// set by next.config when the build starts, scheduled posts go public with the first build after their publishAt
+export const BUILD_TIME = Number(process.env.BUILD_TIME) || Date.now()
 
 /**
  * GitHub 仓库配置
@@ -1,6 +1,7 @@
 import useSWR from 'swr'
 import { useAuthStore } from '@/hooks/use-auth'
 import type { BlogIndexItem } from '@/app/blog/types'
+import { filterPublished } from '@/lib/blog-schedule'
 
 export type { BlogIndexItem } from '@/app/blog/types'
 
@@ -16,6 +17,9 @@ const fetcher = async (url: string) => {
 	return Array.isArray(data) ? data : []
 }
 
+/**
+ * Posts of the index, visitors do not get hidden and scheduled ones
+ */
 export function useBlogIndex() {
 	const { isAuth } = useAuthStore()
 	const { data, error, isLoading } = useSWR<BlogIndexItem[]>('/blogs/index.json', fetcher, {
@@ -25,7 +29,7 @@ export function useBlogIndex() {
 
 	let result = data || []
 	if (!isAuth) {
-		result = result.filter(item => !item.hidden)
+		result = filterPublished(result.filter(item => !item.hidden))
 	}
 
 	return {
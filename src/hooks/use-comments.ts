@@ -0,0 +1,126 @@
+import useSWR from 'swr'
+import { useAuthStore } from '@/hooks/use-auth'
+import type { BlogComment } from '@/app/blog/types'
+
+const ENDPOINT = '/api/comments'
+
+export type CommentNode = BlogComment & { replies: CommentNode[] }
+
+// the editor's installation token proves the site owner to the api
+const ownerHeaders = async (): Promise<Record<string, string>> => {
+	const { isAuth, getAuthToken } = useAuthStore.getState()
+	if (!isAuth) return {}
+	try {
+		return { Authorization: `Bearer ${await getAuthToken()}` }
+	} catch {
+		return {}
+	}
+}
+
+async function request<T>(url: string, init: RequestInit = {}, asOwner = false): Promise<T> {
+	const headers = { ...(init.headers as Record<string, string>), ...(asOwner ? await ownerHeaders() : {}) }
+	const res = await fetch(url, { ...init, cache: 'no-store', headers })
+	const data = await res.json().catch(() => ({}))
+	if (!res.ok) {
+		const error: any = new Error(data?.error || data?.reason || 'Request failed')
+		error.status = res.status
+		error.reason = data?.reason
+		throw error
+	}
+	return data as T
+}
+
+/**
+ * Nest a flat comment list, replies whose parent is missing are dropped
+ */
+export function buildCommentTree(comments: BlogComment[]): CommentNode[] {
+	const nodes = new Map<number, CommentNode>(comments.map(comment => [comment.id, { ...comment, replies: [] }]))
+	const roots: CommentNode[] = []
+	for (const node of nodes.values()) {
+		if (node.parentId === null) roots.push(node)
+		else nodes.get(node.parentId)?.replies.push(node)
+	}
+	return roots
+}
+
+/**
+ * Comments of a post, `moderating` also loads the pending ones (site owner only)
+ */
+export function useComments(slug: string, moderating = false) {
+	const { isAuth } = useAuthStore()
+	const asOwner = isAuth && moderating
+	const key = slug ? ([`${ENDPOINT}?slug=${encodeURIComponent(slug)}`, asOwner] as const) : null
+	const { data, error, isLoading, mutate } = useSWR(key, ([url, owner]) => request<{ comments: BlogComment[] }>(url, {}, owner).then(res => res.comments), {
+		revalidateOnFocus: false
+	})
+
+	const comments = data || []
+
+	const addComment = async (input: { author: string; content: string; parentId?: number | null }) => {
+		const { comment } = await request<{ comment: BlogComment | null }>(
+			`${ENDPOINT}?slug=${encodeURIComponent(slug)}`,
+			{
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(input)
+			},
+			isAuth
+		)
+		if (comment && (comment.status === 'approved' || asOwner)) await mutate([...comments, comment], { revalidate: false })
+		return comment
+	}
+
+	const approveComment = async (id: number) => {
+		await request(`${ENDPOINT}?id=${id}`, { method: 'PATCH' }, true)
+		await mutate(comments.map(comment => (comment.id === id ? { ...comment, status: 'approved' as const } : comment)), { revalidate: false })
+	}
+
+	const deleteComment = async (id: number) => {
+		await request(`${ENDPOINT}?id=${id}`, { method: 'DELETE' }, true)
+		await mutate()
+	}
+
+	return {
+		comments,
+		tree: buildCommentTree(comments),
+		pendingCount: comments.filter(comment => comment.status === 'pending').length,
+		loading: isLoading,
+		error,
+		addComment,
+		approveComment,
+		deleteComment
+	}
+}
+
+/**
+ * Pending comments of every post, oldest first, the owner's moderation queue
+ */
+export function usePendingComments() {
+	const { isAuth } = useAuthStore()
+	const { data, error, isLoading, mutate } = useSWR(
+		isAuth ? `${ENDPOINT}?status=pending` : null,
+		(url: string) => request<{ comments: BlogComment[] }>(url, {}, true).then(res => res.comments),
+		{ revalidateOnFocus: false }
+	)
+
+	const comments = data || []
+
+	const approveComment = async (id: number) => {
+		await request(`${ENDPOINT}?id=${id}`, { method: 'PATCH' }, true)
+		await mutate(comments.filter(comment => comment.id !== id), { revalidate: false })
+	}
+
+	// replies go with their comment, reload to drop pending ones among them
+	const deleteComment = async (id: number) => {
+		await request(`${ENDPOINT}?id=${id}`, { method: 'DELETE' }, true)
+		await mutate()
+	}
+
+	return {
+		comments,
+		loading: isLoading,
+		error,
+		approveComment,
+		deleteComment
+	}
+}
@@ -0,0 +1,26 @@
+import { create } from 'zustand'
+import type { BlogsIndexConflict, BlogsIndexResolution } from '@/lib/blog-index'
+
+type Resolutions = Record<string, BlogsIndexResolution>
+
+type IndexConflictStore = {
+	conflicts: BlogsIndexConflict[]
+	pending: ((resolutions: Resolutions | null) => void) | null
+	// Open the conflict dialog and wait for the user's choice, null when cancelled
+	request: (conflicts: BlogsIndexConflict[]) => Promise<Resolutions | null>
+	resolve: (resolutions: Resolutions | null) => void
+}
+
+export const useIndexConflictStore = create<IndexConflictStore>((set, get) => ({
+	conflicts: [],
+	pending: null,
+	request: conflicts => {
+		// a previous unanswered request counts as cancelled
+		get().pending?.(null)
+		return new Promise(resolve => set({ conflicts, pending: resolve }))
+	},
+	resolve: resolutions => {
+		get().pending?.(resolutions)
+		set({ conflicts: [], pending: null })
+	}
+}))
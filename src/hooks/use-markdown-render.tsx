@@ -1,8 +1,12 @@
 import { useEffect, useState, type ReactElement, Fragment } from 'react'
 import parse, { type HTMLReactParserOptions, Element, type DOMNode } from 'html-react-parser'
-import { renderMarkdown, type TocItem } from '@/lib/markdown-renderer'
+import { renderMarkdown, type TocItem, type MarkdownRenderResult as RenderedMarkdown } from '@/lib/markdown-renderer'
+import type { MarkdownFeatures } from '@/app/blog/types'
+import 'katex/dist/katex.min.css'
 import { MarkdownImage } from '@/components/markdown-image'
 import { CodeBlock } from '@/components/code-block'
+import { HeadingAnchor } from '@/components/heading-anchor'
+import { getDiagramLanguage, isClientOnlyDiagram, type DiagramLanguage } from '@/lib/markdown-diagrams'
 
 type MarkdownRenderResult = {
 	content: ReactElement | null
@@ -10,76 +14,95 @@ type MarkdownRenderResult = {
 	loading: boolean
 }
 
-export function useMarkdownRender(markdown: string): MarkdownRenderResult {
-	const [content, setContent] = useState<ReactElement | null>(null)
-	const [toc, setToc] = useState<TocItem[]>([])
-	const [loading, setLoading] = useState<boolean>(true)
+function htmlToReact(html: string): ReactElement {
+	// Extract pre elements and replace with placeholders before parsing
+	const codeBlocks: Array<{ placeholder: string; code: string; preHtml: string; diagram?: DiagramLanguage }> = []
+	let processedHtml = html.replace(/<pre\s+data-code="([^"]*)"([^>]*)>([\s\S]*?)<\/pre>/g, (match, codeAttr, attrs, content) => {
+		const placeholder = `__CODE_BLOCK_${codeBlocks.length}__`
+		// Decode HTML entities in code attribute
+		const code = codeAttr
+			.replace(/&quot;/g, '"')
+			.replace(/&#39;/g, "'")
+			.replace(/&lt;/g, '<')
+			.replace(/&gt;/g, '>')
+			.replace(/&amp;/g, '&')
+		codeBlocks.push({
+			placeholder,
+			code,
+			preHtml: `${content}`,
+			diagram: getDiagramLanguage(/data-diagram="([^"]*)"/.exec(attrs)?.[1]) ?? undefined
+		})
+		return placeholder
+	})
+
+	// Parse HTML and replace img elements and code block placeholders
+	const options: HTMLReactParserOptions = {
+		replace(domNode: DOMNode) {
+			if (domNode instanceof Element && domNode.name === 'img') {
+				const { src, alt, title } = domNode.attribs
+				return <MarkdownImage src={src} alt={alt} title={title} />
+			}
+			if (domNode instanceof Element && domNode.name === 'a' && domNode.attribs.class === 'heading-anchor') {
+				return <HeadingAnchor id={decodeURIComponent(domNode.attribs.href.slice(1))} />
+			}
+			// Handle code block placeholders in text nodes
+			if (domNode.type === 'text' && domNode.data && domNode.data.includes('__CODE_BLOCK_')) {
+				const text = domNode.data
+				const result = text
+								.split(/(__CODE_BLOCK_\d+__)/)
+								.filter(Boolean);
+
+				return (
+					<>
+						{result.map((item, index) => {
+							if(item.startsWith('__CODE_BLOCK_')){
+								const block = codeBlocks.find(b => b.placeholder === item)
+								if (block?.diagram) {
+									return <CodeBlock key={block.placeholder} code={block.code} diagram={block.diagram} svg={isClientOnlyDiagram(block.diagram) ? undefined : block.preHtml} />
+								}
+								if(block){
+									const preElement = parse(block.preHtml) as ReactElement
+									return (
+										<CodeBlock key={block.placeholder} code={block.code}>{preElement}</CodeBlock>
+									)
+								}
+							}else{
+								return item
+									? <Fragment key={index}>{item}</Fragment>
+									: null
+							}
+						})}
+					</>
+				)
+			}
+		}
+	}
+	return parse(processedHtml, options) as ReactElement
+}
+
+/**
+ * Render markdown to React content.
+ * When `prerendered` is given (e.g. from a server component) it is used directly and no client-side render happens.
+ * `features` toggles the markdown plugins of the post, see `BlogConfig.markdown`.
+ */
+export function useMarkdownRender(markdown: string, prerendered?: RenderedMarkdown, features?: MarkdownFeatures): MarkdownRenderResult {
+	const [content, setContent] = useState<ReactElement | null>(() => (prerendered ? htmlToReact(prerendered.html) : null))
+	const [toc, setToc] = useState<TocItem[]>(() => prerendered?.toc ?? [])
+	const [loading, setLoading] = useState<boolean>(!prerendered)
+	// callers usually pass a fresh object each render, compare by value
+	const featuresKey = JSON.stringify(features ?? {})
 
 	useEffect(() => {
+		if (prerendered) return
+
 		let cancelled = false
 
 		async function render() {
 			setLoading(true)
 			try {
-				const { html, toc } = await renderMarkdown(markdown)
+				const { html, toc } = await renderMarkdown(markdown, { features: JSON.parse(featuresKey) as MarkdownFeatures })
 				if (!cancelled) {
-					// Extract pre elements and replace with placeholders before parsing
-					const codeBlocks: Array<{ placeholder: string; code: string; preHtml: string }> = []
-					let processedHtml = html.replace(/<pre\s+data-code="([^"]*)"([^>]*)>([\s\S]*?)<\/pre>/g, (match, codeAttr, attrs, content) => {
-						const placeholder = `__CODE_BLOCK_${codeBlocks.length}__`
-						// Decode HTML entities in code attribute
-						const code = codeAttr
-							.replace(/&quot;/g, '"')
-							.replace(/&#39;/g, "'")
-							.replace(/&lt;/g, '<')
-							.replace(/&gt;/g, '>')
-							.replace(/&amp;/g, '&')
-						codeBlocks.push({
-							placeholder,
-							code,
-							preHtml: `${content}`
-						})
-						return placeholder
-					})
-
-					// Parse HTML and replace img elements and code block placeholders
-					const options: HTMLReactParserOptions = {
-						replace(domNode: DOMNode) {
-							if (domNode instanceof Element && domNode.name === 'img') {
-								const { src, alt, title } = domNode.attribs
-								return <MarkdownImage src={src} alt={alt} title={title} />
-							}
-							// Handle code block placeholders in text nodes
-							if (domNode.type === 'text' && domNode.data && domNode.data.includes('__CODE_BLOCK_')) {
-								const text = domNode.data
-								const result = text
-												.split(/(__CODE_BLOCK_\d+__)/)
-												.filter(Boolean);
-
-								return (
-									<>
-										{result.map((item, index) => {
-											if(item.startsWith('__CODE_BLOCK_')){
-												const block = codeBlocks.find(b => b.placeholder === item)
-												if(block){
-													const preElement = parse(block.preHtml) as ReactElement
-													return (
-														<CodeBlock key={block.placeholder} code={block.code}>{preElement}</CodeBlock>
-													)
-												}
-											}else{
-												return item
-													? <Fragment key={index}>{item}</Fragment>
-													: null
-											}
-										})}
-									</>
-								)
-							}
-						}
-					}
-					const reactContent = parse(processedHtml, options) as ReactElement
-					setContent(reactContent)
+					setContent(htmlToReact(html))
 					setToc(toc)
 				}
 			} catch (error) {
@@ -100,7 +123,7 @@ export function useMarkdownRender(markdown: string): MarkdownRenderResult {
 		return () => {
 			cancelled = true
 		}
-	}, [markdown])
+	}, [markdown, prerendered, featuresKey])
 
 	return { content, toc, loading }
 }
@@ -0,0 +1,64 @@
+import { useEffect } from 'react'
+import useSWR from 'swr'
+import type { PopularItem, ViewPeriod } from '@/lib/post-views'
+
+const ENDPOINT = '/api/views'
+
+const fetcher = async <T>(url: string): Promise<T> => {
+	const res = await fetch(url, { cache: 'no-store' })
+	if (!res.ok) {
+		const error: any = new Error('Fetch failed')
+		error.status = res.status
+		throw error
+	}
+	return res.json()
+}
+
+/**
+ * Views of every post keyed by slug, shared by the lists so they cost one request
+ */
+export function useViewCounts() {
+	const { data, isLoading } = useSWR(ENDPOINT, (url: string) => fetcher<{ counts: Record<string, number> }>(url), {
+		revalidateOnFocus: false,
+		dedupingInterval: 1000 * 60
+	})
+
+	return { counts: data?.counts ?? {}, loading: isLoading }
+}
+
+/**
+ * Record a view of the post once per mount and return its count, pass null to skip
+ */
+export function usePostView(slug: string | null) {
+	const key = slug ? `${ENDPOINT}?slug=${encodeURIComponent(slug)}` : null
+	const { data, mutate } = useSWR(key, (url: string) => fetcher<{ count: number }>(url).then(res => res.count), {
+		revalidateOnFocus: false,
+		revalidateOnMount: false
+	})
+
+	useEffect(() => {
+		if (!key) return
+		fetch(key, { method: 'POST' })
+			.then(res => (res.ok ? res.json() : null))
+			.then(res => {
+				if (typeof res?.count === 'number') mutate(res.count, { revalidate: false })
+			})
+			.catch(() => {
+				// views are best effort
+			})
+	}, [key, mutate])
+
+	return data
+}
+
+/**
+ * Most viewed posts of a period, highest count first
+ */
+export function usePopularPosts(period: ViewPeriod, limit = 10) {
+	const { data, error, isLoading } = useSWR(`${ENDPOINT}?period=${period}&limit=${limit}`, (url: string) => fetcher<{ items: PopularItem[] }>(url), {
+		revalidateOnFocus: false,
+		dedupingInterval: 1000 * 60
+	})
+
+	return { items: data?.items ?? [], loading: isLoading, error }
+}
@@ -1,13 +1,29 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 
+// progress at which a post counts as read
+export const READ_THRESHOLD = 0.9
+
+export type ReadingRecord = {
+	// 0 - 1, how far the reader got through the article
+	progress: number
+	// id of the last toc heading scrolled past
+	headingId?: string
+	updatedAt: number
+	// reached READ_THRESHOLD once, reading it again does not make it unread
+	finished?: boolean
+}
+
 // Use object hash for faster lookup - O(1) time complexity
-type ReadArticlesHash = Record<string, boolean>
+type ReadArticlesHash = Record<string, ReadingRecord>
 
 interface ReadArticlesStore {
 	readArticles: ReadArticlesHash
-	markAsRead: (slug: string) => void
+	saveProgress: (slug: string, progress: number, headingId?: string) => void
+	getRecord: (slug: string) => ReadingRecord | undefined
 	isRead: (slug: string) => boolean
+	// most recently read post that was left unfinished
+	getContinueReading: () => ({ slug: string } & ReadingRecord) | null
 	clearAll: () => void
 }
 
@@ -15,23 +31,52 @@ export const useReadArticles = create<ReadArticlesStore>()(
 	persist(
 		(set, get) => ({
 			readArticles: {},
-			markAsRead: (slug: string) => {
+			saveProgress: (slug: string, progress: number, headingId?: string) => {
 				set(state => ({
 					readArticles: {
 						...state.readArticles,
-						[slug]: true
+						[slug]: {
+							progress: Math.max(0, Math.min(1, progress)),
+							headingId,
+							updatedAt: Date.now(),
+							finished: state.readArticles[slug]?.finished || progress >= READ_THRESHOLD
+						}
 					}
 				}))
 			},
+			getRecord: (slug: string) => {
+				return get().readArticles[slug]
+			},
 			isRead: (slug: string) => {
-				return get().readArticles[slug] === true
+				return get().readArticles[slug]?.finished === true
+			},
+			getContinueReading: () => {
+				let latest: ({ slug: string } & ReadingRecord) | null = null
+				for (const [slug, record] of Object.entries(get().readArticles)) {
+					if (record.finished || record.progress <= 0.02) continue
+					if (!latest || record.updatedAt > latest.updatedAt) latest = { slug, ...record }
+				}
+				return latest
 			},
 			clearAll: () => {
 				set({ readArticles: {} })
 			}
 		}),
 		{
-			name: 'blog-read-articles'
+			name: 'blog-read-articles',
+			version: 1,
+			// v0 stored `true` for every opened post
+			migrate: (persisted, version) => {
+				const state = persisted as { readArticles?: Record<string, unknown> }
+				if (version === 0 && state?.readArticles) {
+					const readArticles: ReadArticlesHash = {}
+					for (const [slug, value] of Object.entries(state.readArticles)) {
+						if (value === true) readArticles[slug] = { progress: 1, updatedAt: 0, finished: true }
+					}
+					return { ...state, readArticles } as ReadArticlesStore
+				}
+				return persisted as ReadArticlesStore
+			}
 		}
 	)
 )
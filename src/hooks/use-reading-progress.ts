@@ -0,0 +1,77 @@
+import { useEffect } from 'react'
+import { toast } from 'sonner'
+import { useReadArticles } from '@/hooks/use-read-articles'
+
+const SAVE_DELAY = 500
+// headings this close to the top of the viewport count as passed
+const HEADING_OFFSET = 120
+
+const getArticle = () => document.querySelector<HTMLElement>('article .prose') || document.querySelector<HTMLElement>('article')
+
+// share of the article that has been scrolled past the bottom of the viewport
+function measureProgress(): number {
+	const article = getArticle()
+	if (!article) return 0
+	const rect = article.getBoundingClientRect()
+	if (rect.height <= 0) return 0
+	return Math.max(0, Math.min(1, (window.innerHeight - rect.top) / rect.height))
+}
+
+function findCurrentHeading(): string | undefined {
+	const headings = getArticle()?.querySelectorAll<HTMLElement>('h1[id], h2[id], h3[id]')
+	let current: string | undefined
+	headings?.forEach(heading => {
+		if (heading.getBoundingClientRect().top <= HEADING_OFFSET) current = heading.id
+	})
+	return current
+}
+
+function scrollToRecord(progress: number, headingId?: string) {
+	const heading = headingId ? document.getElementById(headingId) : null
+	if (heading) {
+		heading.scrollIntoView()
+		return
+	}
+	const article = getArticle()
+	if (!article) return
+	const top = article.getBoundingClientRect().top + window.scrollY
+	window.scrollTo({ top: Math.max(0, top + article.offsetHeight * progress - window.innerHeight) })
+}
+
+/**
+ * Track how far the reader got through the post and bring returning readers back there
+ */
+export function useReadingProgress(slug: string) {
+	const saveProgress = useReadArticles(state => state.saveProgress)
+
+	useEffect(() => {
+		const record = useReadArticles.getState().getRecord(slug)
+		// a deep link wins over the saved position
+		if (record && !record.finished && record.progress > 0.02 && !window.location.hash) {
+			scrollToRecord(record.progress, record.headingId)
+			toast('已回到上次阅读位置', {
+				action: { label: '从头阅读', onClick: () => window.scrollTo({ top: 0, behavior: 'smooth' }) }
+			})
+		} else {
+			saveProgress(slug, record?.progress ?? measureProgress(), record?.headingId)
+		}
+
+		let timer: ReturnType<typeof setTimeout> | null = null
+		const save = () => {
+			timer = null
+			saveProgress(slug, measureProgress(), findCurrentHeading())
+		}
+		const handleScroll = () => {
+			if (!timer) timer = setTimeout(save, SAVE_DELAY)
+		}
+
+		window.addEventListener('scroll', handleScroll, { passive: true })
+		return () => {
+			window.removeEventListener('scroll', handleScroll)
+			if (timer) {
+				clearTimeout(timer)
+				save()
+			}
+		}
+	}, [slug, saveProgress])
+}
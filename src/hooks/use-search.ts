@@ -0,0 +1,49 @@
+'use client'
+
+import { useMemo } from 'react'
+import useSWR from 'swr'
+import { create } from 'zustand'
+import { useAuthStore } from '@/hooks/use-auth'
+import { filterPublished } from '@/lib/blog-schedule'
+import { createSearcher } from '@/lib/search'
+import type { SearchDocument } from '@/app/blog/types'
+
+type SearchPaletteStore = {
+	open: boolean
+	setOpen: (open: boolean) => void
+	toggle: () => void
+}
+
+export const useSearchPalette = create<SearchPaletteStore>(set => ({
+	open: false,
+	setOpen: open => set({ open }),
+	toggle: () => set(state => ({ open: !state.open }))
+}))
+
+const fetcher = async (url: string): Promise<SearchDocument[]> => {
+	const res = await fetch(url, { cache: 'no-store' })
+	if (!res.ok) return []
+	const data = await res.json()
+	return Array.isArray(data) ? data : []
+}
+
+/**
+ * Searcher over public/blogs/search.json, only fetched once `enabled` turns true
+ */
+export function useSearch(enabled: boolean) {
+	const { isAuth } = useAuthStore()
+	const { data, isLoading } = useSWR<SearchDocument[]>(enabled ? '/blogs/search.json' : null, fetcher, {
+		revalidateOnFocus: false,
+		revalidateOnReconnect: true
+	})
+
+	const search = useMemo(() => {
+		let docs = data || []
+		if (!isAuth) {
+			docs = filterPublished(docs.filter(doc => !doc.hidden))
+		}
+		return createSearcher(docs)
+	}, [data, isAuth])
+
+	return { search, loading: isLoading }
+}
@@ -8,6 +8,10 @@ export default function Head() {
 
 			<link rel='icon' href='/favicon.png' />
 
+			<link rel='alternate' type='application/rss+xml' title='RSS' href='/rss.xml' />
+			<link rel='alternate' type='application/atom+xml' title='Atom' href='/atom.xml' />
+			<link rel='alternate' type='application/feed+json' title='JSON Feed' href='/feed.json' />
+
 			<link rel='preconnect' href='https://fonts.googleapis.cn' />
 			<link rel='preconnect' href='https://fonts.gstatic.cn' crossOrigin='anonymous' />
 
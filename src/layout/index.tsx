@@ -8,6 +8,8 @@ import { CircleCheckIcon, InfoIcon, Loader2Icon, OctagonXIcon, TriangleAlertIcon
 import { useSize, useSizeInit } from '@/hooks/use-size'
 import { useConfigStore } from '@/app/(home)/stores/config-store'
 import { ScrollTopButton } from '@/components/scroll-top-button'
+import { IndexConflictDialog } from '@/components/index-conflict-dialog'
+import { SearchPalette } from '@/components/search-palette'
 
 export default function Layout({ children }: PropsWithChildren) {
 	useCenterInit()
@@ -59,6 +61,9 @@ export default function Layout({ children }: PropsWithChildren) {
 			</main>
 
 			{maxSM && init && <ScrollTopButton className='bg-brand/20 fixed right-6 bottom-8 z-50 shadow-md' />}
+
+			<IndexConflictDialog />
+			<SearchPalette />
 		</>
 	)
 }
@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server'
+import { NextResponse } from 'next/server'
+
+// slugs are primary keys, VARCHAR(191) is the longest utf8mb4 key mysql indexes everywhere
+const MAX_SLUG_LENGTH = 191
+
+export const RATE_LIMIT_STATUS = 429
+
+/**
+ * JSON response of the counter apis, never cached
+ */
+export const respond = (status: number, body: Record<string, unknown>) =>
+	NextResponse.json(body, {
+		status,
+		headers: {
+			'Cache-Control': 'no-store'
+		}
+	})
+
+/**
+ * ?slug= of the request, trimmed and length checked
+ */
+export const parseSlug = (req: NextRequest): { slug?: string; error?: string } => {
+	const slug = req.nextUrl.searchParams.get('slug')?.trim()
+	if (!slug) return { error: 'Missing slug' }
+	if (slug.length > MAX_SLUG_LENGTH) return { error: 'Slug too long' }
+	return { slug }
+}
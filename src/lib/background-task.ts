@@ -0,0 +1,14 @@
+import { getCloudflareContext } from '@opennextjs/cloudflare'
+
+/**
+ * Keep work going after the response is sent, workers would cancel a floating promise so it is handed to waitUntil there
+ */
+export function runAfterResponse(task: Promise<unknown>): void {
+	const settled = task.catch(err => console.error('Background task failed', err))
+	try {
+		// the sync form only reads the request context of the worker and throws everywhere else
+		getCloudflareContext().ctx.waitUntil(settled)
+	} catch {
+		// node keeps running the promise on its own
+	}
+}
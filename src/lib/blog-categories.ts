@@ -0,0 +1,18 @@
+import type { BlogIndexItem } from '@/app/blog/types'
+
+export const categoryHref = (name: string) => `/blog/category/${encodeURIComponent(name)}`
+
+export const categoryFeedHref = (name: string) => `${categoryHref(name)}/rss.xml`
+
+export const filterByCategory = (items: BlogIndexItem[], name: string) => items.filter(item => (item.category || '') === name)
+
+/**
+ * Configured categories first (in their configured order), then any other category used by a post
+ */
+export function listCategories(configured: string[], items: BlogIndexItem[]): string[] {
+	const names = new Set(configured.map(c => c.trim()).filter(Boolean))
+	for (const item of items) {
+		if (item.category?.trim()) names.add(item.category.trim())
+	}
+	return Array.from(names)
+}
@@ -1,59 +1,131 @@
 'use client'
 
-import { putFile, toBase64Utf8, readTextFileFromRepo } from '@/lib/github-client'
+import { readRepoFile, type Changeset } from '@/lib/github-client'
+import { useIndexConflictStore } from '@/hooks/use-index-conflict'
+import { writeSearchIndex } from '@/lib/search-index'
 
 import type { BlogIndexItem } from '@/app/blog/types'
 
 export type { BlogIndexItem } from '@/app/blog/types'
 
-export async function upsertBlogsIndex(token: string, owner: string, repo: string, item: BlogIndexItem, branch: string): Promise<void> {
-	const indexPath = 'public/blogs/index.json'
-	let list: BlogIndexItem[] = []
-	try {
-		const txt = await readTextFileFromRepo(token, owner, repo, indexPath, branch)
-		if (txt) list = JSON.parse(txt)
-	} catch {
-		// ignore parse errors and start from empty list
-	}
-	const map = new Map<string, BlogIndexItem>(list.map(i => [i.slug, i]))
-	map.set(item.slug, item)
-	const next = Array.from(map.values()).sort((a, b) => (b.date || '').localeCompare(a.date || ''))
-	const base64 = toBase64Utf8(JSON.stringify(next, null, 2))
-	await putFile(token, owner, repo, indexPath, base64, 'Update blogs index', branch)
+export const BLOGS_INDEX_PATH = 'public/blogs/index.json'
+
+export type BlogsIndexSnapshot = {
+	items: BlogIndexItem[]
+	/** blob sha of index.json when it was read, undefined when unknown */
+	sha?: string
 }
 
-export async function prepareBlogsIndex(token: string, owner: string, repo: string, item: BlogIndexItem, branch: string): Promise<string> {
-	const indexPath = 'public/blogs/index.json'
-	let list: BlogIndexItem[] = []
+/** Same slug changed differently on both sides, undefined means the entry was removed / did not exist */
+export type BlogsIndexConflict = {
+	slug: string
+	base?: BlogIndexItem
+	ours?: BlogIndexItem
+	theirs?: BlogIndexItem
+}
+
+export type BlogsIndexResolution = 'ours' | 'theirs'
+
+export function sortBlogsIndex(list: BlogIndexItem[]): BlogIndexItem[] {
+	return [...list].sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+}
+
+export async function readBlogsIndex(token: string, owner: string, repo: string, ref: string): Promise<BlogsIndexSnapshot> {
+	const file = await readRepoFile(token, owner, repo, BLOGS_INDEX_PATH, ref)
+	if (!file) return { items: [] }
 	try {
-		const txt = await readTextFileFromRepo(token, owner, repo, indexPath, branch)
-		if (txt) list = JSON.parse(txt)
+		const list = JSON.parse(file.content)
+		return { items: Array.isArray(list) ? list : [], sha: file.sha }
 	} catch {
 		// ignore parse errors and start from empty list
+		return { items: [], sha: file.sha }
 	}
+}
+
+export function upsertIndexItem(list: BlogIndexItem[], item: BlogIndexItem): BlogIndexItem[] {
 	const map = new Map<string, BlogIndexItem>(list.map(i => [i.slug, i]))
 	map.set(item.slug, item)
-	const next = Array.from(map.values()).sort((a, b) => (b.date || '').localeCompare(a.date || ''))
-	return JSON.stringify(next, null, 2)
+	return sortBlogsIndex(Array.from(map.values()))
 }
 
-export async function removeBlogsFromIndex(token: string, owner: string, repo: string, slugs: string[], branch: string): Promise<string> {
-	const indexPath = 'public/blogs/index.json'
-	let list: BlogIndexItem[] = []
-	try {
-		const txt = await readTextFileFromRepo(token, owner, repo, indexPath, branch)
-		if (txt) list = JSON.parse(txt)
-	} catch {
-		// ignore parse errors and keep empty list
-	}
+export function removeIndexItems(list: BlogIndexItem[], slugs: string[]): BlogIndexItem[] {
 	const slugSet = new Set(slugs.filter(Boolean))
-	if (slugSet.size === 0) {
-		return JSON.stringify(list, null, 2)
+	if (slugSet.size === 0) return list
+	return list.filter(item => !slugSet.has(item.slug))
+}
+
+const normalizeEntry = (item?: BlogIndexItem): string => {
+	if (!item) return ''
+	const entries = Object.entries(item)
+		.filter(([, value]) => value !== undefined)
+		.sort(([a], [b]) => a.localeCompare(b))
+	return JSON.stringify(entries)
+}
+
+/**
+ * Three-way merge of the index by slug
+ * An entry changed on one side only takes that side, an entry changed on both sides differently is a conflict
+ */
+export function mergeBlogsIndex(
+	base: BlogIndexItem[],
+	ours: BlogIndexItem[],
+	theirs: BlogIndexItem[],
+	resolutions: Record<string, BlogsIndexResolution> = {}
+): { items: BlogIndexItem[]; conflicts: BlogsIndexConflict[] } {
+	const baseMap = new Map(base.map(i => [i.slug, i]))
+	const oursMap = new Map(ours.map(i => [i.slug, i]))
+	const theirsMap = new Map(theirs.map(i => [i.slug, i]))
+	const slugs = new Set([...baseMap.keys(), ...oursMap.keys(), ...theirsMap.keys()])
+
+	const items: BlogIndexItem[] = []
+	const conflicts: BlogsIndexConflict[] = []
+
+	for (const slug of slugs) {
+		const b = baseMap.get(slug)
+		const o = oursMap.get(slug)
+		const t = theirsMap.get(slug)
+		const [nb, no, nt] = [normalizeEntry(b), normalizeEntry(o), normalizeEntry(t)]
+
+		let picked: BlogIndexItem | undefined
+		if (no === nb) picked = t
+		else if (nt === nb || no === nt) picked = o
+		else if (resolutions[slug]) picked = resolutions[slug] === 'ours' ? o : t
+		else {
+			conflicts.push({ slug, base: b, ours: o, theirs: t })
+			continue
+		}
+
+		if (picked) items.push(picked)
 	}
-	const next = list.filter(item => !slugSet.has(item.slug))
-	return JSON.stringify(next, null, 2)
+
+	return { items: sortBlogsIndex(items), conflicts }
 }
 
-export async function removeBlogFromIndex(token: string, owner: string, repo: string, slug: string, branch: string): Promise<string> {
-	return removeBlogsFromIndex(token, owner, repo, [slug], branch)
+/**
+ * Keep index.json in the changeset in line with the head the commit is built on
+ * Pass the result as `prepare` to commitChangeset: when the index changed since `base` was read,
+ * entries are merged by slug and conflicting slugs are resolved through the conflict dialog
+ * search.json is rebuilt from the resulting index as well
+ */
+export function syncBlogsIndex(changeset: Changeset, token: string, owner: string, repo: string, base: BlogsIndexSnapshot, ours: BlogIndexItem[]) {
+	const resolutions: Record<string, BlogsIndexResolution> = {}
+
+	return async (headSha: string): Promise<void> => {
+		const current = await readBlogsIndex(token, owner, repo, headSha)
+
+		let next = ours
+		if (!base.sha || current.sha !== base.sha) {
+			let merged = mergeBlogsIndex(base.items, ours, current.items, resolutions)
+			if (merged.conflicts.length > 0) {
+				const chosen = await useIndexConflictStore.getState().request(merged.conflicts)
+				if (!chosen) throw new Error('文章索引存在冲突，已取消提交')
+				Object.assign(resolutions, chosen)
+				merged = mergeBlogsIndex(base.items, ours, current.items, resolutions)
+			}
+			next = merged.items
+		}
+
+		changeset.writeText(BLOGS_INDEX_PATH, JSON.stringify(next, null, 2))
+		await writeSearchIndex(changeset, token, owner, repo, headSha, next)
+	}
 }
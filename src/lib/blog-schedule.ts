@@ -0,0 +1,15 @@
+import { BUILD_TIME } from '@/consts'
+import type { BlogIndexItem } from '@/app/blog/types'
+
+/**
+ * A post with a publishAt in the future is committed but not public yet
+ * Measured against the build by default: pages, feeds and lists are cut at the same moment, so nothing links to a page that was not built
+ */
+export const isScheduled = (item: Pick<BlogIndexItem, 'publishAt'>, now: number = BUILD_TIME): boolean => {
+	if (!item.publishAt) return false
+	const time = new Date(item.publishAt).getTime()
+	return !Number.isNaN(time) && time > now
+}
+
+export const filterPublished = <T extends Pick<BlogIndexItem, 'publishAt'>>(items: T[], now: number = BUILD_TIME): T[] =>
+	items.filter(item => !isScheduled(item, now))
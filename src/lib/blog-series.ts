@@ -0,0 +1,19 @@
+import type { BlogIndexItem } from '@/app/blog/types'
+
+export const seriesHref = (name: string) => `/blog/series/${encodeURIComponent(name)}`
+
+/**
+ * Parts of a series in reading order, posts with the same order fall back to their date
+ */
+export function getSeriesParts(items: BlogIndexItem[], name: string): BlogIndexItem[] {
+	return items
+		.filter(item => item.series?.name === name)
+		.sort((a, b) => a.series!.order - b.series!.order || new Date(a.date).getTime() - new Date(b.date).getTime())
+}
+
+/**
+ * Series names used by the given posts
+ */
+export function listSeries(items: BlogIndexItem[]): string[] {
+	return Array.from(new Set(items.map(item => item.series?.name?.trim()).filter((name): name is string => !!name)))
+}
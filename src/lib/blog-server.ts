@@ -0,0 +1,64 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import blogIndex from '@/../public/blogs/index.json'
+import categoriesConfig from '@/../public/blogs/categories.json'
+import { listCategories } from '@/lib/blog-categories'
+import { listSeries } from '@/lib/blog-series'
+import type { BlogConfig, BlogIndexItem } from '@/app/blog/types'
+import type { LoadedBlog } from '@/lib/load-blog'
+
+const BLOGS_DIR = path.join(process.cwd(), 'public', 'blogs')
+
+/**
+ * Blog index bundled at build time from public/blogs/index.json
+ */
+export function getBlogIndex(): BlogIndexItem[] {
+	return (blogIndex as BlogIndexItem[]).filter(item => item?.slug)
+}
+
+/**
+ * Server-side counterpart of loadBlog: reads public/blogs/{slug} from disk
+ * Returns null when the post does not exist
+ */
+export async function readBlogFromDisk(slug: string): Promise<LoadedBlog | null> {
+	if (!slug || slug.includes('..') || slug.includes('/')) return null
+
+	const dir = path.join(BLOGS_DIR, slug)
+
+	let markdown: string
+	try {
+		markdown = await fs.readFile(path.join(dir, 'index.md'), 'utf-8')
+	} catch {
+		return null
+	}
+
+	let config: BlogConfig = {}
+	try {
+		config = JSON.parse(await fs.readFile(path.join(dir, 'config.json'), 'utf-8'))
+	} catch {
+		config = {}
+	}
+
+	return {
+		slug,
+		config,
+		markdown,
+		cover: config.cover
+	}
+}
+
+/**
+ * Category names from public/blogs/categories.json plus those used by posts
+ */
+export function getBlogCategories(): string[] {
+	const configured = Array.isArray(categoriesConfig) ? categoriesConfig : ((categoriesConfig as { categories?: string[] }).categories ?? [])
+	return listCategories(configured, getBlogIndex())
+}
+
+/**
+ * Series names used by posts in the index
+ */
+export function getBlogSeries(): string[] {
+	return listSeries(getBlogIndex())
+}
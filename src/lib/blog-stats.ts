@@ -0,0 +1,54 @@
+import type { BlogStats } from '@/app/blog/types'
+
+// reading speed, CJK is read per character and everything else per word
+const CJK_CHARS_PER_MINUTE = 300
+const WORDS_PER_MINUTE = 200
+const SECONDS_PER_IMAGE = 10
+const SECONDS_PER_CODE_BLOCK = 20
+
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu
+
+const FENCED_CODE = /^ {0,3}(```|~~~)[^\n]*\n[\s\S]*?(?:\n {0,3}\1[^\n]*|$)/gm
+
+/**
+ * Reduce markdown to the plain text a reader would see, code blocks and markup are dropped
+ */
+export function markdownToPlainText(markdown: string): string {
+	return markdown
+		.replace(/```[\s\S]*?```/g, ' ')
+		.replace(/~~~[\s\S]*?~~~/g, ' ')
+		.replace(/<!--[\s\S]*?-->/g, ' ')
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/`([^`]*)`/g, '$1')
+		.replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+\.)\s+/gm, '')
+		.replace(/^\s*([-*_]\s*){3,}$/gm, ' ')
+		.replace(/[*_~|]+/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim()
+}
+
+/**
+ * Length of a post, CJK characters count as one word each
+ */
+export function computeBlogStats(markdown: string): BlogStats {
+	const codeBlocks = markdown.match(FENCED_CODE)?.length ?? 0
+	const images = (markdown.match(/!\[[^\]]*\]\([^)]*\)/g)?.length ?? 0) + (markdown.match(/<img\s/gi)?.length ?? 0)
+
+	const text = markdownToPlainText(markdown)
+	const cjk = text.match(CJK_CHAR)?.length ?? 0
+	const words = text.replace(CJK_CHAR, ' ').match(WORD)?.length ?? 0
+	const characters = Array.from(text.replace(/\s/g, '')).length
+
+	const seconds = (cjk / CJK_CHARS_PER_MINUTE + words / WORDS_PER_MINUTE) * 60 + images * SECONDS_PER_IMAGE + codeBlocks * SECONDS_PER_CODE_BLOCK
+
+	return {
+		words: cjk + words,
+		characters,
+		readingMinutes: text || images || codeBlocks ? Math.max(1, Math.round(seconds / 60)) : 0,
+		codeBlocks,
+		images
+	}
+}
@@ -0,0 +1,37 @@
+import type { BlogIndexItem } from '@/app/blog/types'
+
+export type TagCount = {
+	tag: string
+	count: number
+}
+
+export const tagHref = (tag: string) => `/blog/tags/${encodeURIComponent(tag)}`
+
+/**
+ * Tags used by the given posts, most used first
+ */
+export function countTags(items: BlogIndexItem[]): TagCount[] {
+	const counts = new Map<string, number>()
+	for (const item of items) {
+		for (const tag of new Set(item.tags || [])) {
+			if (tag) counts.set(tag, (counts.get(tag) || 0) + 1)
+		}
+	}
+	return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+export const filterByTag = (items: BlogIndexItem[], tag: string) => items.filter(item => (item.tags || []).includes(tag))
+
+/**
+ * Rename a tag on every post, renaming onto an existing tag merges the two
+ */
+export function renameTag(items: BlogIndexItem[], from: string, to: string): BlogIndexItem[] {
+	const target = to.trim()
+	if (!target || target === from) return items
+
+	return items.map(item => {
+		if (!(item.tags || []).includes(from)) return item
+		const tags = Array.from(new Set(item.tags.map(tag => (tag === from ? target : tag))))
+		return { ...item, tags }
+	})
+}
@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server'
+
+// crawlers, link previews, headless browsers and http libraries
+const BOT_PATTERN =
+	/bot|crawl|spider|slurp|scrape|fetch|preview|monitor|lighthouse|headless|phantom|puppeteer|playwright|selenium|curl|wget|python|java\/|go-http|node-fetch|axios|okhttp|httpclient|facebookexternalhit|embedly|quora link|whatsapp|telegram|discord|feed|rss/i
+
+export const isBotUserAgent = (userAgent: string | null | undefined): boolean => !userAgent || BOT_PATTERN.test(userAgent)
+
+/**
+ * Requests that should not count as a human reading the page, bots and browser prefetches
+ */
+export const isBotRequest = (req: NextRequest): boolean => {
+	const purpose = req.headers.get('sec-purpose') || req.headers.get('purpose')
+	if (purpose?.includes('prefetch')) return true
+	return isBotUserAgent(req.headers.get('user-agent'))
+}
@@ -0,0 +1,56 @@
+const escapeHtml = (value: string): string =>
+	value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+
+const LINK_ATTRS = 'target="_blank" rel="nofollow noopener noreferrer ugc"'
+
+/**
+ * Markdown-lite for comments: `code`, **bold**, *italic*, ~~strike~~, [text](https://...), bare links, > quotes and line breaks
+ * Everything is escaped first, so raw html in a comment never reaches the page
+ */
+export function renderCommentMarkdown(input: string): string {
+	const codes: string[] = []
+	// keep code spans away from the other rules
+	let html = escapeHtml(input.trim()).replace(/`([^`\n]+)`/g, (_, code: string) => {
+		codes.push(`<code>${code}</code>`)
+		return `\u0000${codes.length - 1}\u0000`
+	})
+
+	const links: string[] = []
+	const stashLink = (href: string, text: string) => {
+		links.push(`<a href="${href}" ${LINK_ATTRS}>${text}</a>`)
+		return `\u0001${links.length - 1}\u0001`
+	}
+	html = html
+		.replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, text: string, href: string) => stashLink(href, text))
+		.replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)'"]/g, href => stashLink(href, href))
+
+	html = html
+		.replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+		.replace(/(^|[^*])\*([^*\n]+)\*/g, '$1<em>$2</em>')
+		.replace(/~~([^~\n]+)~~/g, '<del>$1</del>')
+
+	const lines = html.split('\n')
+	const blocks: string[] = []
+	let quote: string[] = []
+	const flushQuote = () => {
+		if (quote.length) blocks.push(`<blockquote>${quote.join('<br />')}</blockquote>`)
+		quote = []
+	}
+	for (const line of lines) {
+		const match = /^&gt;\s?(.*)$/.exec(line)
+		if (match) {
+			quote.push(match[1])
+			continue
+		}
+		flushQuote()
+		blocks.push(line)
+	}
+	flushQuote()
+
+	return blocks
+		.join('<br />')
+		.replace(/<br \/>(<blockquote>)/g, '$1')
+		.replace(/(<\/blockquote>)<br \/>/g, '$1')
+		.replace(/\u0001(\d+)\u0001/g, (_, index: string) => links[Number(index)])
+		.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codes[Number(index)])
+}
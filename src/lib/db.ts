@@ -8,26 +8,68 @@ type DbConfig = {
 	database: string
 }
 
-const TABLE_LIKES_SQL = `
-CREATE TABLE IF NOT EXISTS blog_likes (
-	slug VARCHAR(191) NOT NULL PRIMARY KEY,
+const TABLE_REACTIONS_SQL = `
+CREATE TABLE IF NOT EXISTS blog_reactions (
+	slug VARCHAR(191) NOT NULL,
+	reaction VARCHAR(32) NOT NULL,
 	count INT UNSIGNED NOT NULL DEFAULT 0,
 	created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-	updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+	updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+	PRIMARY KEY (slug, reaction)
 ) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
 `
 
-const TABLE_EVENTS_SQL = `
-CREATE TABLE IF NOT EXISTS blog_like_events (
+const TABLE_REACTION_EVENTS_SQL = `
+CREATE TABLE IF NOT EXISTS blog_reaction_events (
 	slug VARCHAR(191) NOT NULL,
-	ip VARCHAR(64) NOT NULL,
+	reaction VARCHAR(32) NOT NULL,
+	visitor VARCHAR(64) NOT NULL,
 	day DATE NOT NULL,
 	created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-	PRIMARY KEY (slug, ip, day),
+	PRIMARY KEY (slug, reaction, visitor, day),
 	INDEX idx_day (day)
 ) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
 `
 
+const TABLE_VIEWS_SQL = `
+CREATE TABLE IF NOT EXISTS blog_views (
+	slug VARCHAR(191) NOT NULL PRIMARY KEY,
+	count INT UNSIGNED NOT NULL DEFAULT 0,
+	created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+`
+
+const TABLE_VIEW_EVENTS_SQL = `
+CREATE TABLE IF NOT EXISTS blog_view_events (
+	id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+	slug VARCHAR(191) NOT NULL,
+	visitor VARCHAR(64) NOT NULL,
+	bucket INT UNSIGNED NOT NULL,
+	created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	UNIQUE KEY uniq_visit (slug, visitor, bucket),
+	INDEX idx_created (created_at, slug)
+) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+`
+
+const TABLE_COMMENTS_SQL = `
+CREATE TABLE IF NOT EXISTS blog_comments (
+	id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+	slug VARCHAR(191) NOT NULL,
+	parent_id BIGINT UNSIGNED NULL,
+	author VARCHAR(64) NOT NULL,
+	content TEXT NOT NULL,
+	status ENUM('pending', 'approved') NOT NULL DEFAULT 'pending',
+	is_owner TINYINT(1) NOT NULL DEFAULT 0,
+	visitor VARCHAR(64) NOT NULL DEFAULT '',
+	created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+	INDEX idx_slug_status (slug, status, created_at),
+	INDEX idx_visitor_created (visitor, created_at),
+	INDEX idx_created (created_at),
+	INDEX idx_parent (parent_id)
+) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+`
+
 const requiredEnv = (key: string): string => {
 	const value = process.env[key]
 	if (!value) throw new Error(`Missing environment variable: ${key}`)
@@ -43,9 +85,22 @@ const resolveConfig = (): DbConfig => ({
 })
 
 let pool: Pool | null = null
-let ensureTablePromise: Promise<void> | null = null
+const ensuredTables = new Map<string, Promise<void>>()
 
-export type LikeCountRow = RowDataPacket & { count: number }
+export type ReactionCountRow = RowDataPacket & { reaction: string; count: number }
+
+export type ViewCountRow = RowDataPacket & { slug: string; count: number }
+
+export type CommentRow = RowDataPacket & {
+	id: number
+	slug: string
+	parent_id: number | null
+	author: string
+	content: string
+	status: 'pending' | 'approved'
+	is_owner: 0 | 1
+	created_at: Date
+}
 
 export const getDbPool = (): Pool => {
 	if (pool) return pool
@@ -61,22 +116,32 @@ export const getDbPool = (): Pool => {
 	return pool
 }
 
-export const ensureLikesTable = async (): Promise<void> => {
-	if (ensureTablePromise) return ensureTablePromise
+/**
+ * Run the CREATE statements of a feature once per process, a failed attempt is retried on the next call
+ */
+const ensureTable = (name: string, ...ddl: string[]): Promise<void> => {
+	const ensured = ensuredTables.get(name)
+	if (ensured) return ensured
 
-	ensureTablePromise = (async () => {
+	const promise = (async () => {
 		const connection = await getDbPool().getConnection()
 		try {
-			await connection.query(TABLE_LIKES_SQL)
-			await connection.query(TABLE_EVENTS_SQL)
+			for (const statement of ddl) await connection.query(statement)
 		} finally {
 			connection.release()
 		}
 	})()
 
-	ensureTablePromise.catch(() => {
-		ensureTablePromise = null
+	ensuredTables.set(name, promise)
+	promise.catch(() => {
+		ensuredTables.delete(name)
 	})
 
-	return ensureTablePromise
+	return promise
 }
+
+export const ensureCommentsTable = (): Promise<void> => ensureTable('comments', TABLE_COMMENTS_SQL)
+
+export const ensureReactionsTable = (): Promise<void> => ensureTable('reactions', TABLE_REACTIONS_SQL, TABLE_REACTION_EVENTS_SQL)
+
+export const ensureViewsTable = (): Promise<void> => ensureTable('views', TABLE_VIEWS_SQL, TABLE_VIEW_EVENTS_SQL)
@@ -0,0 +1,24 @@
+import { runAfterResponse } from '@/lib/background-task'
+
+const DEFAULT_RETENTION_DAYS = 30
+const PURGE_INTERVAL_MS = 1000 * 60 * 60 * 6
+
+/**
+ * How long visitor events (likes, reactions, views) are kept, from EVENT_RETENTION_DAYS
+ */
+export const getEventRetentionDays = (): number => {
+	const days = Number(process.env.EVENT_RETENTION_DAYS)
+	return Number.isSafeInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+/**
+ * Wrap a purge so calling it from a request runs it after the response, at most once every few hours per process
+ */
+export function createPurgeSchedule(purge: (retentionDays: number) => Promise<unknown>): () => void {
+	let lastPurgeAt = 0
+	return () => {
+		if (Date.now() - lastPurgeAt < PURGE_INTERVAL_MS) return
+		lastPurgeAt = Date.now()
+		runAfterResponse(purge(getEventRetentionDays()))
+	}
+}
@@ -0,0 +1,252 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import siteContent from '@/config/site-content.json'
+import { SITE_ORIGIN } from '@/consts'
+import { filterPublished } from '@/lib/blog-schedule'
+import { readBlogFromDisk } from '@/lib/blog-server'
+import { renderMarkdown } from '@/lib/markdown-renderer'
+import type { BlogIndexItem } from '@/app/blog/types'
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public')
+
+export type FeedChannel = {
+	title: string
+	description: string
+	// site path of the feed itself, e.g. /rss.xml
+	feedPath: string
+	// site path of the html page the feed belongs to
+	link?: string
+}
+
+export type FeedEnclosure = {
+	url: string
+	type: string
+	length: number
+}
+
+/**
+ * One post as every feed format sees it
+ */
+export type FeedItem = {
+	id: string
+	url: string
+	title: string
+	summary: string
+	date: Date
+	tags: string[]
+	image?: string
+	enclosure?: FeedEnclosure
+	// full rendered post, only when feeds are configured to carry the whole article
+	contentHtml?: string
+}
+
+/**
+ * Channel of the site wide feeds
+ */
+export const siteFeedChannel = (feedPath: string): FeedChannel => ({
+	title: siteContent.meta?.title || '2025 Blog',
+	description: siteContent.meta?.description || 'Latest updates from 2025 Blog',
+	feedPath
+})
+
+const escapeXml = (value: string): string =>
+	value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;')
+
+// CDATA cannot contain its own terminator, split it across two sections
+const wrapCdata = (value: string): string => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+
+const toAbsoluteUrl = (url: string): string => (/^https?:\/\//.test(url) ? url : `${SITE_ORIGIN}${url.startsWith('/') ? '' : '/'}${url}`)
+
+// Feed readers resolve nothing against the site, make root relative links absolute
+const absolutizeHtml = (html: string): string => html.replace(/(\s(?:src|href))="\/(?!\/)/g, `$1="${SITE_ORIGIN}/`)
+
+const getExtension = (input: string): string | undefined => {
+	const clean = input.split(/[?#]/)[0]
+	return clean.split('.').pop()?.toLowerCase()
+}
+
+const getMimeTypeFromUrl = (url?: string): string | null => {
+	if (!url) return null
+	const ext = getExtension(url)
+	if (!ext) return null
+	if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg'
+	if (ext === 'png') return 'image/png'
+	if (ext === 'gif') return 'image/gif'
+	if (ext === 'webp') return 'image/webp'
+	if (ext === 'svg') return 'image/svg+xml'
+	return null
+}
+
+const buildEnclosure = (cover?: string): FeedEnclosure | undefined => {
+	if (!cover) return undefined
+	const absoluteUrl = toAbsoluteUrl(cover)
+	const type = getMimeTypeFromUrl(absoluteUrl)
+	if (!type) return undefined
+
+	// the length is required by RSS, so only local files can become an enclosure
+	if (/^https?:\/\//.test(cover)) return undefined
+
+	const filePath = path.join(PUBLIC_DIR, cover.replace(/^\/+/, ''))
+	try {
+		const stat = fs.statSync(filePath)
+		return stat.isFile() ? { url: absoluteUrl, type, length: stat.size } : undefined
+	} catch {
+		return undefined
+	}
+}
+
+async function renderContent(slug: string): Promise<string | undefined> {
+	const blog = await readBlogFromDisk(slug)
+	if (!blog) return undefined
+	const { html } = await renderMarkdown(blog.markdown, { features: blog.config.markdown })
+	// the hover anchors only make sense on the site
+	return absolutizeHtml(html.replace(/<a class="heading-anchor"[^>]*>#<\/a>/g, ''))
+}
+
+/**
+ * Feed items for the given posts, hidden and scheduled posts are left out
+ * The full article html is included when `feedFullContent` is enabled in site settings, never for protected posts
+ */
+export async function getFeedItems(items: BlogIndexItem[], fullContent: boolean = siteContent.feedFullContent ?? false): Promise<FeedItem[]> {
+	const published = filterPublished(items).filter(item => item?.slug && !item.hidden)
+
+	const result: FeedItem[] = []
+	// one by one, rendering pulls in shiki and is heavy
+	for (const item of published) {
+		const url = `${SITE_ORIGIN}/blog/${item.slug}`
+		result.push({
+			id: url,
+			url,
+			title: item.title || item.slug,
+			summary: item.summary || '',
+			date: new Date(item.date),
+			tags: (item.tags || []).filter(Boolean),
+			image: item.cover ? toAbsoluteUrl(item.cover) : undefined,
+			enclosure: buildEnclosure(item.cover),
+			contentHtml: fullContent && !item.protected ? await renderContent(item.slug) : undefined
+		})
+	}
+	return result
+}
+
+const serializeRssItem = (item: FeedItem): string => {
+	const categories = item.tags.map(tag => `<category>${escapeXml(tag)}</category>`).join('')
+	const enclosure = item.enclosure ? `<enclosure url="${escapeXml(item.enclosure.url)}" type="${item.enclosure.type}" length="${item.enclosure.length}" />` : ''
+	const content = item.contentHtml ? `<content:encoded>${wrapCdata(item.contentHtml)}</content:encoded>` : ''
+
+	return `
+		<item>
+			<title>${escapeXml(item.title)}</title>
+			<link>${item.url}</link>
+			<guid isPermaLink="false">${escapeXml(item.id)}</guid>
+			<description>${wrapCdata(item.summary)}</description>
+			${content}
+			<pubDate>${item.date.toUTCString()}</pubDate>
+			${categories}
+			${enclosure}
+		</item>`.trim()
+}
+
+/**
+ * RSS 2.0 document
+ */
+export function buildRssFeed({ title, description, feedPath, link = '' }: FeedChannel, items: FeedItem[]): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+	<channel xmlns:atom="http://www.w3.org/2005/Atom">
+		<title>${escapeXml(title)}</title>
+		<link>${escapeXml(`${SITE_ORIGIN}${link}`)}</link>
+		<atom:link href="${escapeXml(`${SITE_ORIGIN}${feedPath}`)}" rel="self" type="application/rss+xml" />
+		<description>${escapeXml(description)}</description>
+		<language>zh-CN</language>
+		<docs>https://www.rssboard.org/rss-specification</docs>
+		<ttl>60</ttl>
+		<lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+		${items.map(serializeRssItem).join('')}
+	</channel>
+</rss>`
+}
+
+const serializeAtomEntry = (item: FeedItem): string => {
+	const categories = item.tags.map(tag => `<category term="${escapeXml(tag)}" />`).join('')
+	const content = item.contentHtml ? `<content type="html">${escapeXml(item.contentHtml)}</content>` : ''
+
+	return `
+		<entry>
+			<title>${escapeXml(item.title)}</title>
+			<link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />
+			<id>${escapeXml(item.id)}</id>
+			<published>${item.date.toISOString()}</published>
+			<updated>${item.date.toISOString()}</updated>
+			<summary>${escapeXml(item.summary)}</summary>
+			${content}
+			${categories}
+		</entry>`.trim()
+}
+
+/**
+ * Atom 1.0 document
+ */
+export function buildAtomFeed({ title, description, feedPath, link = '' }: FeedChannel, items: FeedItem[]): string {
+	const updated = items.reduce((latest, item) => (item.date > latest ? item.date : latest), new Date(0))
+	const author = siteContent.meta?.username || title
+
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="zh-CN">
+	<title>${escapeXml(title)}</title>
+	<subtitle>${escapeXml(description)}</subtitle>
+	<link rel="alternate" type="text/html" href="${escapeXml(`${SITE_ORIGIN}${link}`)}" />
+	<link rel="self" type="application/atom+xml" href="${escapeXml(`${SITE_ORIGIN}${feedPath}`)}" />
+	<id>${escapeXml(`${SITE_ORIGIN}${feedPath}`)}</id>
+	<updated>${(items.length > 0 ? updated : new Date()).toISOString()}</updated>
+	<author><name>${escapeXml(author)}</name></author>
+	${items.map(serializeAtomEntry).join('')}
+</feed>`
+}
+
+/**
+ * JSON Feed 1.1 document
+ */
+export function buildJsonFeed({ title, description, feedPath, link = '' }: FeedChannel, items: FeedItem[]): string {
+	const author = siteContent.meta?.username || title
+
+	const feed = {
+		version: 'https://jsonfeed.org/version/1.1',
+		title,
+		description,
+		home_page_url: `${SITE_ORIGIN}${link}`,
+		feed_url: `${SITE_ORIGIN}${feedPath}`,
+		language: 'zh-CN',
+		authors: [{ name: author }],
+		items: items.map(item => ({
+			id: item.id,
+			url: item.url,
+			title: item.title,
+			summary: item.summary || undefined,
+			// JSON Feed requires content, fall back to the summary
+			content_html: item.contentHtml ?? (item.summary ? `<p>${escapeXml(item.summary)}</p>` : ''),
+			image: item.image,
+			date_published: item.date.toISOString(),
+			tags: item.tags.length > 0 ? item.tags : undefined,
+			attachments: item.enclosure ? [{ url: item.enclosure.url, mime_type: item.enclosure.type, size_in_bytes: item.enclosure.length }] : undefined
+		}))
+	}
+
+	return JSON.stringify(feed, null, 2)
+}
+
+const FEED_CONTENT_TYPES = {
+	rss: 'application/rss+xml; charset=utf-8',
+	atom: 'application/atom+xml; charset=utf-8',
+	json: 'application/feed+json; charset=utf-8'
+} as const
+
+export function feedResponse(body: string, format: keyof typeof FEED_CONTENT_TYPES): Response {
+	return new Response(body, {
+		headers: {
+			'Content-Type': FEED_CONTENT_TYPES[format],
+			'Cache-Control': 'public, max-age=0, must-revalidate'
+		}
+	})
+}
@@ -9,7 +9,7 @@ export function readFileAsText(file: File): Promise<string> {
 	})
 }
 
-export function fileToBase64NoPrefix(file: File): Promise<string> {
+export function fileToBase64NoPrefix(file: Blob): Promise<string> {
 	return new Promise((resolve, reject) => {
 		const reader = new FileReader()
 		reader.onload = () => {
@@ -3,6 +3,7 @@
 import { useAuthStore } from '@/hooks/use-auth'
 import { KJUR, KEYUTIL } from 'jsrsasign'
 import { toast } from 'sonner'
+import { fileToBase64NoPrefix } from './file-utils'
 
 export const GH_API = 'https://api.github.com'
 
@@ -19,6 +20,19 @@ function handle422Error(): void {
 	toast.error('操作太快了，请操作慢一点')
 }
 
+/**
+ * Failed GitHub API call that callers may want to tell apart by status
+ */
+export class GitHubError extends Error {
+	status: number
+
+	constructor(message: string, status: number) {
+		super(message)
+		this.name = 'GitHubError'
+		this.status = status
+	}
+}
+
 export function toBase64Utf8(input: string): string {
 	return btoa(unescape(encodeURIComponent(input)))
 }
@@ -157,7 +171,11 @@ export async function createCommit(token: string, owner: string, repo: string, m
 	return { sha: data.sha }
 }
 
-export async function updateRef(token: string, owner: string, repo: string, ref: string, sha: string, force = false): Promise<void> {
+/**
+ * Move the branch to `sha`, a non fast forward rejects with a GitHubError of status 422
+ * Pass toastOnConflict = false when the caller retries and reports the conflict itself
+ */
+export async function updateRef(token: string, owner: string, repo: string, ref: string, sha: string, force = false, toastOnConflict = true): Promise<void> {
 	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/git/refs/${encodeURIComponent(ref)}`, {
 		method: 'PATCH',
 		headers: {
@@ -169,11 +187,48 @@ export async function updateRef(token: string, owner: string, repo: string, ref:
 		body: JSON.stringify({ sha, force })
 	})
 	if (res.status === 401) handle401Error()
+	if (res.status === 422 && toastOnConflict) handle422Error()
+	if (!res.ok) throw new GitHubError(`update ref failed: ${res.status}`, res.status)
+}
+
+export type CommitInfo = {
+	sha: string
+	message: string
+	author: string
+	date: string
+	url: string
+}
+
+export async function listCommits(
+	token: string,
+	owner: string,
+	repo: string,
+	options: { path?: string; ref?: string; perPage?: number } = {}
+): Promise<CommitInfo[]> {
+	const params = new URLSearchParams({ per_page: String(options.perPage ?? 30) })
+	if (options.path) params.set('path', options.path)
+	if (options.ref) params.set('sha', options.ref)
+	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/commits?${params.toString()}`, {
+		headers: {
+			Authorization: `Bearer ${token}`,
+			Accept: 'application/vnd.github+json',
+			'X-GitHub-Api-Version': '2022-11-28'
+		}
+	})
+	if (res.status === 401) handle401Error()
 	if (res.status === 422) handle422Error()
-	if (!res.ok) throw new Error(`update ref failed: ${res.status}`)
+	if (!res.ok) throw new Error(`list commits failed: ${res.status}`)
+	const data: any[] = await res.json()
+	return data.map(item => ({
+		sha: item.sha,
+		message: item.commit?.message || '',
+		author: item.commit?.author?.name || item.author?.login || '',
+		date: item.commit?.author?.date || '',
+		url: item.html_url
+	}))
 }
 
-export async function readTextFileFromRepo(token: string, owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+export async function readRepoFile(token: string, owner: string, repo: string, path: string, ref: string): Promise<{ content: string; sha: string } | null> {
 	const res = await fetch(`${GH_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`, {
 		headers: {
 			Authorization: `Bearer ${token}`,
@@ -188,12 +243,17 @@ export async function readTextFileFromRepo(token: string, owner: string, repo: s
 	const data: any = await res.json()
 	if (Array.isArray(data) || !data.content) return null
 	try {
-		return decodeURIComponent(escape(atob(data.content)))
+		return { content: decodeURIComponent(escape(atob(data.content))), sha: data.sha }
 	} catch {
-		return atob(data.content)
+		return { content: atob(data.content), sha: data.sha }
 	}
 }
 
+export async function readTextFileFromRepo(token: string, owner: string, repo: string, path: string, ref: string): Promise<string | null> {
+	const file = await readRepoFile(token, owner, repo, path, ref)
+	return file ? file.content : null
+}
+
 export async function listRepoFilesRecursive(token: string, owner: string, repo: string, path: string, ref: string): Promise<string[]> {
 	async function fetchPath(targetPath: string): Promise<string[]> {
 		const res = await fetch(`${GH_API}/repos/${owner}/${repo}/contents/${encodeURIComponent(targetPath)}?ref=${encodeURIComponent(ref)}`, {
@@ -251,3 +311,142 @@ export async function createBlob(
 	const data = await res.json()
 	return { sha: data.sha }
 }
+
+// Changeset APIs
+
+export type FileChange =
+	| { type: 'text'; path: string; content: string }
+	| { type: 'binary'; path: string; content: Blob | string }
+	| { type: 'delete'; path: string }
+
+export type Changeset = {
+	readonly changes: FileChange[]
+	readonly size: number
+	/** Add or update a text file (utf-8) */
+	writeText: (path: string, content: string) => Changeset
+	/** Add or update a binary file, content is a Blob/File or a base64 string without data url prefix */
+	writeBinary: (path: string, content: Blob | string) => Changeset
+	deleteFile: (path: string) => Changeset
+	has: (path: string) => boolean
+	get: (path: string) => FileChange | undefined
+}
+
+/**
+ * Collect file changes to be committed at once by commitChangeset
+ * Later changes on the same path replace earlier ones
+ */
+export function createChangeset(): Changeset {
+	const map = new Map<string, FileChange>()
+
+	const changeset: Changeset = {
+		get changes() {
+			return Array.from(map.values())
+		},
+		get size() {
+			return map.size
+		},
+		writeText: (path, content) => {
+			map.set(path, { type: 'text', path, content })
+			return changeset
+		},
+		writeBinary: (path, content) => {
+			map.set(path, { type: 'binary', path, content })
+			return changeset
+		},
+		deleteFile: path => {
+			map.set(path, { type: 'delete', path })
+			return changeset
+		},
+		has: path => map.has(path),
+		get: path => map.get(path)
+	}
+
+	return changeset
+}
+
+export type CommitChangesetOptions = {
+	/** How many times to rebase onto a moved branch head before giving up */
+	maxRetries?: number
+	/**
+	 * Called with the head sha the commit is about to be built on, before every attempt
+	 * May rewrite files of the changeset, e.g. to merge a json file with what is on that head
+	 */
+	prepare?: (headSha: string) => Promise<void>
+}
+
+/**
+ * Commit all changes as a single commit on top of the branch head
+ * getRef → createBlob × N → createTree → createCommit → updateRef
+ * When the branch moved meanwhile (non fast forward), the tree is rebuilt on the new head and the commit is retried
+ */
+export async function commitChangeset(
+	token: string,
+	owner: string,
+	repo: string,
+	branch: string,
+	changeset: Changeset,
+	message: string,
+	options: CommitChangesetOptions = {}
+): Promise<{ sha: string }> {
+	const { maxRetries = 3, prepare } = options
+	if (changeset.size === 0) throw new Error('没有需要提交的改动')
+
+	const ref = `heads/${branch}`
+	// blobs do not depend on the head, reuse them across retries unless prepare rewrote the file
+	const blobShas = new WeakMap<FileChange, string>()
+
+	const buildTreeItems = async (): Promise<TreeItem[]> => {
+		const changes = changeset.changes
+		if (changes.some(change => change.type !== 'delete' && !blobShas.has(change))) {
+			toast.info('正在上传文件...')
+		}
+
+		const treeItems: TreeItem[] = []
+		for (const change of changes) {
+			if (change.type === 'delete') {
+				treeItems.push({ path: change.path, mode: '100644', type: 'blob', sha: null })
+				continue
+			}
+			let sha = blobShas.get(change)
+			if (!sha) {
+				const blob =
+					change.type === 'text'
+						? await createBlob(token, owner, repo, change.content, 'utf-8')
+						: await createBlob(token, owner, repo, typeof change.content === 'string' ? change.content : await fileToBase64NoPrefix(change.content), 'base64')
+				sha = blob.sha
+				blobShas.set(change, sha)
+			}
+			treeItems.push({ path: change.path, mode: '100644', type: 'blob', sha })
+		}
+		return treeItems
+	}
+
+	toast.info('正在获取分支信息...')
+	let headSha = (await getRef(token, owner, repo, ref)).sha
+
+	for (let attempt = 0; ; attempt++) {
+		if (prepare) await prepare(headSha)
+		const treeItems = await buildTreeItems()
+
+		toast.info('正在创建文件树...')
+		const treeData = await createTree(token, owner, repo, treeItems, headSha)
+
+		toast.info('正在创建提交...')
+		const commitData = await createCommit(token, owner, repo, message, treeData.sha, [headSha])
+
+		toast.info('正在更新分支...')
+		try {
+			await updateRef(token, owner, repo, ref, commitData.sha, false, false)
+			return commitData
+		} catch (error) {
+			if (!(error instanceof GitHubError) || error.status !== 422) throw error
+			if (attempt >= maxRetries) {
+				handle422Error()
+				throw error
+			}
+		}
+
+		toast.info('分支已被其他提交更新，正在基于最新版本重试...')
+		headSha = (await getRef(token, owner, repo, ref)).sha
+	}
+}
@@ -0,0 +1,12 @@
+import type { D1Database } from '@cloudflare/workers-types'
+import type { SqlExecutor } from './types'
+
+/**
+ * Executor over a Cloudflare D1 binding, a batch runs as one transaction
+ */
+export function createD1Executor(db: D1Database): SqlExecutor {
+	return async statements => {
+		const results = await db.batch<Record<string, unknown>>(statements.map(({ sql, params }) => db.prepare(sql).bind(...params)))
+		return results.map(result => ({ changes: result.meta.changes ?? 0, rows: result.results ?? [] }))
+	}
+}
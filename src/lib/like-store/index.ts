@@ -0,0 +1,83 @@
+import { createPurgeSchedule } from '@/lib/event-retention'
+import { LIKE_MIGRATIONS } from './migrations'
+import { runMigrations } from './migrate'
+import type { SqlDialect } from './schema'
+import type { LikeStore, SqlExecutor } from './types'
+
+export type { LikeResult, LikeStore } from './types'
+
+type LikeStoreKind = 'mysql' | 'sqlite' | 'd1'
+
+export type LikeBackend = {
+	kind: LikeStoreKind
+	dialect: SqlDialect
+	execute: SqlExecutor
+	store: LikeStore
+}
+
+const DEFAULT_SQLITE_PATH = '.likes.sqlite'
+const DEFAULT_D1_BINDING = 'LIKE_DB'
+
+const resolveKind = (): LikeStoreKind => {
+	const kind = (process.env.LIKE_STORE || 'mysql').toLowerCase()
+	if (kind === 'mysql' || kind === 'sqlite' || kind === 'd1') return kind
+	throw new Error(`Unknown LIKE_STORE: ${kind}`)
+}
+
+// backends are imported lazily so mysql2 and better-sqlite3 never load on workers
+const openBackend = async (kind: LikeStoreKind): Promise<LikeBackend> => {
+	if (kind === 'mysql') {
+		const [{ getDbPool }, { createMysqlExecutor, createMysqlLikeStore }] = await Promise.all([import('@/lib/db'), import('./mysql')])
+		const pool = getDbPool()
+		return { kind, dialect: 'mysql', execute: createMysqlExecutor(pool), store: createMysqlLikeStore(pool) }
+	}
+
+	if (kind === 'sqlite') {
+		const [{ openSqliteExecutor }, { createSqliteLikeStore }] = await Promise.all([import('./sqlite-file'), import('./sqlite')])
+		const execute = await openSqliteExecutor(process.env.LIKE_SQLITE_PATH || DEFAULT_SQLITE_PATH)
+		return { kind, dialect: 'sqlite', execute, store: createSqliteLikeStore(execute) }
+	}
+
+	const [{ getCloudflareContext }, { createD1Executor }, { createSqliteLikeStore }] = await Promise.all([
+		import('@opennextjs/cloudflare'),
+		import('./d1'),
+		import('./sqlite')
+	])
+	const { env } = await getCloudflareContext({ async: true })
+	const binding = process.env.LIKE_D1_BINDING || DEFAULT_D1_BINDING
+	const db = (env as Record<string, unknown>)[binding] as Parameters<typeof createD1Executor>[0] | undefined
+	if (!db) throw new Error(`Missing D1 binding: ${binding}`)
+	const execute = createD1Executor(db)
+	return { kind, dialect: 'sqlite', execute, store: createSqliteLikeStore(execute) }
+}
+
+/**
+ * The backend picked by LIKE_STORE (mysql, sqlite or d1) without touching the schema, for scripts
+ */
+export const openLikeBackend = (): Promise<LikeBackend> => openBackend(resolveKind())
+
+let storePromise: Promise<LikeStore> | null = null
+
+/**
+ * The like store, pending migrations are applied once per process before first use
+ */
+export const getLikeStore = async (): Promise<LikeStore> => {
+	if (storePromise) return storePromise
+
+	storePromise = (async () => {
+		const { dialect, execute, store } = await openLikeBackend()
+		await runMigrations(execute, dialect, LIKE_MIGRATIONS)
+		return store
+	})()
+
+	storePromise.catch(() => {
+		storePromise = null
+	})
+
+	return storePromise
+}
+
+/**
+ * Drop expired like events after the response, at most once every few hours per process
+ */
+export const purgeLikeEventsIfDue = createPurgeSchedule(async retentionDays => (await getLikeStore()).purgeEvents(retentionDays))
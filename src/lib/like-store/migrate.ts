@@ -0,0 +1,53 @@
+import { createTableStatements, type SqlDialect, type TableSchema } from './schema'
+import type { SqlExecutor } from './types'
+
+export type Migration = {
+	version: number
+	name: string
+	up: (dialect: SqlDialect) => string[]
+}
+
+export type MigrationStatus = {
+	applied: number[]
+	pending: Migration[]
+}
+
+const MIGRATIONS_TABLE: TableSchema = {
+	name: 'schema_migrations',
+	columns: [
+		{ name: 'version', type: 'integer' },
+		{ name: 'name', type: 'string', length: 191 },
+		{ name: 'applied_at', type: 'timestamp' }
+	],
+	primaryKey: ['version']
+}
+
+const toStatements = (sqls: string[]) => sqls.map(sql => ({ sql, params: [] }))
+
+export const createMigrationsTableStatements = (dialect: SqlDialect): string[] => createTableStatements([MIGRATIONS_TABLE], dialect)
+
+export async function getMigrationStatus(execute: SqlExecutor, dialect: SqlDialect, migrations: Migration[]): Promise<MigrationStatus> {
+	await execute(toStatements(createMigrationsTableStatements(dialect)))
+	const [result] = await execute([{ sql: 'SELECT version FROM schema_migrations ORDER BY version', params: [] }])
+	const applied = result.rows.map(row => Number(row.version))
+	const pending = migrations.filter(migration => !applied.includes(migration.version)).sort((a, b) => a.version - b.version)
+	return { applied, pending }
+}
+
+/**
+ * Apply the pending migrations in version order, each one together with its schema_migrations row
+ * Another process racing on the same migration only loses the insert, so keep DDL tolerant of reruns where the dialect allows
+ */
+export async function runMigrations(execute: SqlExecutor, dialect: SqlDialect, migrations: Migration[]): Promise<Migration[]> {
+	const { pending } = await getMigrationStatus(execute, dialect, migrations)
+	const insert = dialect === 'mysql' ? 'INSERT IGNORE INTO' : 'INSERT OR IGNORE INTO'
+
+	for (const migration of pending) {
+		await execute([
+			...toStatements(migration.up(dialect)),
+			{ sql: `${insert} schema_migrations (version, name) VALUES (?, ?)`, params: [migration.version, migration.name] }
+		])
+	}
+
+	return pending
+}
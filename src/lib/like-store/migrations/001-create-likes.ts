@@ -0,0 +1,35 @@
+import { createTableStatements } from '../schema'
+import type { Migration } from '../migrate'
+
+// IF NOT EXISTS keeps databases created before migrations existed working
+export const createLikes: Migration = {
+	version: 1,
+	name: 'create_likes',
+	up: dialect =>
+		createTableStatements(
+			[
+				{
+					name: 'blog_likes',
+					columns: [
+						{ name: 'slug', type: 'string', length: 191 },
+						{ name: 'count', type: 'counter' },
+						{ name: 'created_at', type: 'timestamp' },
+						{ name: 'updated_at', type: 'timestamp', onUpdate: true }
+					],
+					primaryKey: ['slug']
+				},
+				{
+					name: 'blog_like_events',
+					columns: [
+						{ name: 'slug', type: 'string', length: 191 },
+						{ name: 'ip', type: 'string', length: 64 },
+						{ name: 'day', type: 'date' },
+						{ name: 'created_at', type: 'timestamp' }
+					],
+					primaryKey: ['slug', 'ip', 'day'],
+					indexes: [{ name: 'idx_day', columns: ['day'] }]
+				}
+			],
+			dialect
+		)
+}
@@ -0,0 +1,14 @@
+import type { Migration } from '../migrate'
+
+// events keep a visitor hash instead of the raw ip, the old rows only matter for today's dedupe so they are dropped
+// CHANGE COLUMN rather than RENAME COLUMN keeps mysql 5.7 and mariadb 10.4 working
+export const hashLikeVisitors: Migration = {
+	version: 2,
+	name: 'hash_like_visitors',
+	up: dialect => [
+		'DELETE FROM blog_like_events;',
+		dialect === 'mysql'
+			? 'ALTER TABLE blog_like_events CHANGE COLUMN ip visitor VARCHAR(64) NOT NULL;'
+			: 'ALTER TABLE blog_like_events RENAME COLUMN ip TO visitor;'
+	]
+}
@@ -0,0 +1,8 @@
+import type { Migration } from '../migrate'
+import { createLikes } from './001-create-likes'
+import { hashLikeVisitors } from './002-hash-like-visitors'
+
+/**
+ * Every migration of the likes database, append new ones with the next version and never edit applied ones
+ */
+export const LIKE_MIGRATIONS: Migration[] = [createLikes, hashLikeVisitors]
@@ -0,0 +1,79 @@
+import type { Pool, ResultSetHeader, RowDataPacket } from 'mysql2/promise'
+import type { LikeStore, SqlExecutor } from './types'
+
+type LikeCountRow = RowDataPacket & { count: number }
+
+export function createMysqlLikeStore(pool: Pool): LikeStore {
+	const readCount = async (connection: Pick<Pool, 'execute'>, slug: string): Promise<number> => {
+		const [rows] = await connection.execute<LikeCountRow[]>('SELECT count FROM blog_likes WHERE slug = ?', [slug])
+		return rows[0]?.count ?? 0
+	}
+
+	return {
+		getCount: slug => readCount(pool, slug),
+
+		async like(slug, visitorKeys) {
+			const connection = await pool.getConnection()
+			let committed = false
+			try {
+				await connection.beginTransaction()
+				const [limitedRows] = await connection.query<RowDataPacket[]>(
+					'SELECT 1 FROM blog_like_events WHERE slug = ? AND visitor IN (?) AND day = CURDATE() LIMIT 1 FOR UPDATE',
+					[slug, visitorKeys]
+				)
+				await connection.execute(
+					`INSERT IGNORE INTO blog_like_events (slug, visitor, day) VALUES ${visitorKeys.map(() => '(?, ?, CURDATE())').join(', ')}`,
+					visitorKeys.flatMap(visitor => [slug, visitor])
+				)
+				if (!limitedRows.length) {
+					await connection.execute('INSERT INTO blog_likes (slug, count) VALUES (?, 1) ON DUPLICATE KEY UPDATE count = count + 1', [slug])
+				}
+				const count = await readCount(connection, slug)
+				await connection.commit()
+				committed = true
+				return { count, limited: limitedRows.length > 0 }
+			} finally {
+				if (!committed) {
+					try {
+						await connection.rollback()
+					} catch {
+						// ignore rollback errors
+					}
+				}
+				connection.release()
+			}
+		},
+
+		async purgeEvents(retentionDays) {
+			const [result] = await pool.query<ResultSetHeader>('DELETE FROM blog_like_events WHERE day < CURDATE() - INTERVAL ? DAY', [retentionDays])
+			return result.affectedRows
+		}
+	}
+}
+
+export function createMysqlExecutor(pool: Pool): SqlExecutor {
+	return async statements => {
+		const connection = await pool.getConnection()
+		let committed = false
+		try {
+			await connection.beginTransaction()
+			const results = []
+			for (const { sql, params } of statements) {
+				const [result] = await connection.query<RowDataPacket[] | ResultSetHeader>(sql, params)
+				results.push(Array.isArray(result) ? { changes: 0, rows: result } : { changes: result.affectedRows, rows: [] })
+			}
+			await connection.commit()
+			committed = true
+			return results
+		} finally {
+			if (!committed) {
+				try {
+					await connection.rollback()
+				} catch {
+					// ignore rollback errors
+				}
+			}
+			connection.release()
+		}
+	}
+}
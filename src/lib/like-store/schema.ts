@@ -0,0 +1,53 @@
+export type SqlDialect = 'mysql' | 'sqlite'
+
+type ColumnSchema = {
+	name: string
+	type: 'integer' | 'string' | 'counter' | 'date' | 'timestamp'
+	// string columns only
+	length?: number
+	// timestamp columns only, sqlite has no ON UPDATE so the store sets it itself
+	onUpdate?: boolean
+}
+
+export type TableSchema = {
+	name: string
+	columns: ColumnSchema[]
+	primaryKey: string[]
+	indexes?: Array<{ name: string; columns: string[] }>
+}
+
+const renderColumn = (column: ColumnSchema, dialect: SqlDialect): string => {
+	switch (column.type) {
+		case 'integer':
+			return dialect === 'mysql' ? `${column.name} INT UNSIGNED NOT NULL` : `${column.name} INTEGER NOT NULL`
+		case 'string':
+			return dialect === 'mysql' ? `${column.name} VARCHAR(${column.length}) NOT NULL` : `${column.name} TEXT NOT NULL`
+		case 'counter':
+			return dialect === 'mysql' ? `${column.name} INT UNSIGNED NOT NULL DEFAULT 0` : `${column.name} INTEGER NOT NULL DEFAULT 0`
+		case 'date':
+			return dialect === 'mysql' ? `${column.name} DATE NOT NULL` : `${column.name} TEXT NOT NULL`
+		case 'timestamp':
+			if (dialect === 'sqlite') return `${column.name} TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP`
+			return `${column.name} TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP${column.onUpdate ? ' ON UPDATE CURRENT_TIMESTAMP' : ''}`
+	}
+}
+
+/**
+ * CREATE statements for the tables, they skip tables that already exist
+ * sqlite index names are global, so they get the table name as prefix
+ */
+export function createTableStatements(tables: TableSchema[], dialect: SqlDialect): string[] {
+	return tables.flatMap(table => {
+		const lines = [...table.columns.map(column => renderColumn(column, dialect)), `PRIMARY KEY (${table.primaryKey.join(', ')})`]
+
+		if (dialect === 'mysql') {
+			lines.push(...(table.indexes ?? []).map(index => `INDEX ${index.name} (${index.columns.join(', ')})`))
+			return [`CREATE TABLE IF NOT EXISTS ${table.name} (\n\t${lines.join(',\n\t')}\n) CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;`]
+		}
+
+		return [
+			`CREATE TABLE IF NOT EXISTS ${table.name} (\n\t${lines.join(',\n\t')}\n);`,
+			...(table.indexes ?? []).map(index => `CREATE INDEX IF NOT EXISTS ${table.name}_${index.name} ON ${table.name} (${index.columns.join(', ')});`)
+		]
+	})
+}
@@ -0,0 +1,21 @@
+import type { SqlExecutor, SqlResult, SqlStatement } from './types'
+
+/**
+ * Executor over a local database file, for development
+ * Kept apart from the sqlite store so the d1 backend never pulls in better-sqlite3
+ */
+export async function openSqliteExecutor(filename: string): Promise<SqlExecutor> {
+	const { default: Database } = await import('better-sqlite3')
+	const db = new Database(filename)
+	db.pragma('journal_mode = WAL')
+
+	const run = db.transaction((statements: SqlStatement[]): SqlResult[] =>
+		statements.map(({ sql, params }) => {
+			const statement = db.prepare(sql)
+			if (statement.reader) return { changes: 0, rows: statement.all(...params) as Record<string, unknown>[] }
+			return { changes: statement.run(...params).changes, rows: [] }
+		})
+	)
+
+	return async statements => run(statements)
+}
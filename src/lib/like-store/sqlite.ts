@@ -0,0 +1,41 @@
+import type { LikeStore, SqlExecutor, SqlResult } from './types'
+
+const countOf = (result: SqlResult | undefined): number => Number(result?.rows[0]?.count ?? 0)
+
+/**
+ * Likes on the sqlite dialect, days are UTC dates from date('now')
+ */
+export function createSqliteLikeStore(execute: SqlExecutor): LikeStore {
+	return {
+		async getCount(slug) {
+			const [result] = await execute([{ sql: 'SELECT count FROM blog_likes WHERE slug = ?', params: [slug] }])
+			return countOf(result)
+		},
+
+		async like(slug, visitorKeys) {
+			const placeholders = visitorKeys.map(() => '?').join(', ')
+			// the first key is only inserted when no key liked today, changes() then tells the counter whether to move
+			const [first, , , current] = await execute([
+				{
+					sql: `INSERT INTO blog_like_events (slug, visitor, day) SELECT ?, ?, date('now') WHERE NOT EXISTS (SELECT 1 FROM blog_like_events WHERE slug = ? AND day = date('now') AND visitor IN (${placeholders}))`,
+					params: [slug, visitorKeys[0], slug, ...visitorKeys]
+				},
+				{
+					sql: 'INSERT INTO blog_likes (slug, count) SELECT ?, 1 WHERE changes() > 0 ON CONFLICT (slug) DO UPDATE SET count = count + 1, updated_at = CURRENT_TIMESTAMP',
+					params: [slug]
+				},
+				{
+					sql: `INSERT OR IGNORE INTO blog_like_events (slug, visitor, day) VALUES ${visitorKeys.map(() => "(?, ?, date('now'))").join(', ')}`,
+					params: visitorKeys.flatMap(visitor => [slug, visitor])
+				},
+				{ sql: 'SELECT count FROM blog_likes WHERE slug = ?', params: [slug] }
+			])
+			return { count: countOf(current), limited: first.changes === 0 }
+		},
+
+		async purgeEvents(retentionDays) {
+			const [result] = await execute([{ sql: "DELETE FROM blog_like_events WHERE day < date('now', ?)", params: [`-${retentionDays} days`] }])
+			return result.changes
+		}
+	}
+}
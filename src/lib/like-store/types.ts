@@ -0,0 +1,26 @@
+export type LikeResult = {
+	count: number
+	// already liked today, the count is unchanged
+	limited: boolean
+}
+
+/**
+ * Storage behind /api/like: one like per visitor per slug per day
+ */
+export type LikeStore = {
+	getCount: (slug: string) => Promise<number>
+	// limited when any of the visitor keys already liked today, all keys are remembered either way
+	like: (slug: string, visitorKeys: string[]) => Promise<LikeResult>
+	// drop dedupe events older than the retention, returns how many were removed
+	purgeEvents: (retentionDays: number) => Promise<number>
+}
+
+export type SqlStatement = { sql: string; params: unknown[] }
+
+export type SqlResult = { changes: number; rows: Record<string, unknown>[] }
+
+/**
+ * Runs statements in order inside one transaction, every backend fits behind it
+ * mysql commits implicitly around DDL, so a failed migration there can be half applied
+ */
+export type SqlExecutor = (statements: SqlStatement[]) => Promise<SqlResult[]>
@@ -0,0 +1,76 @@
+export type DiffLine = { no: number; text: string }
+
+export type DiffRow = {
+	type: 'same' | 'added' | 'removed' | 'changed'
+	left?: DiffLine
+	right?: DiffLine
+}
+
+type Op = { type: 'same' | 'added' | 'removed'; text: string }
+
+// Line based LCS diff, good enough for article sized text
+function diffOps(a: string[], b: string[]): Op[] {
+	const n = a.length
+	const m = b.length
+	const width = m + 1
+	const lcs = new Uint32Array((n + 1) * width)
+
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i * width + j] = a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+		}
+	}
+
+	const ops: Op[] = []
+	let i = 0
+	let j = 0
+	while (i < n && j < m) {
+		if (a[i] === b[j]) {
+			ops.push({ type: 'same', text: a[i] })
+			i++
+			j++
+		} else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+			ops.push({ type: 'removed', text: a[i++] })
+		} else {
+			ops.push({ type: 'added', text: b[j++] })
+		}
+	}
+	while (i < n) ops.push({ type: 'removed', text: a[i++] })
+	while (j < m) ops.push({ type: 'added', text: b[j++] })
+
+	return ops
+}
+
+/**
+ * Side-by-side rows of a line diff, adjacent removed/added runs are paired as changed rows
+ */
+export function diffLines(oldText: string, newText: string): DiffRow[] {
+	const ops = diffOps(oldText.split('\n'), newText.split('\n'))
+	const rows: DiffRow[] = []
+	let leftNo = 0
+	let rightNo = 0
+
+	for (let k = 0; k < ops.length; ) {
+		if (ops[k].type === 'same') {
+			rows.push({ type: 'same', left: { no: ++leftNo, text: ops[k].text }, right: { no: ++rightNo, text: ops[k].text } })
+			k++
+			continue
+		}
+
+		const removed: string[] = []
+		const added: string[] = []
+		while (k < ops.length && ops[k].type !== 'same') {
+			if (ops[k].type === 'removed') removed.push(ops[k].text)
+			else added.push(ops[k].text)
+			k++
+		}
+
+		for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+			const left = r < removed.length ? { no: ++leftNo, text: removed[r] } : undefined
+			const right = r < added.length ? { no: ++rightNo, text: added[r] } : undefined
+			rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right })
+		}
+	}
+
+	return rows
+}
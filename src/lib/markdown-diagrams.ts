@@ -0,0 +1,112 @@
+import { KROKI_URL } from '@/consts'
+
+export type DiagramLanguage = 'mermaid' | 'plantuml' | 'dot'
+
+// fence languages and the diagram renderer they map to
+const DIAGRAM_ALIASES: Record<string, DiagramLanguage> = {
+	mermaid: 'mermaid',
+	plantuml: 'plantuml',
+	puml: 'plantuml',
+	uml: 'plantuml',
+	dot: 'dot',
+	graphviz: 'dot'
+}
+
+export function getDiagramLanguage(lang?: string): DiagramLanguage | null {
+	if (!lang) return null
+	const diagram = DIAGRAM_ALIASES[lang.trim().toLowerCase()] ?? null
+	// plantuml leaves the site, only when a kroki server is configured on purpose
+	if (diagram === 'plantuml' && !KROKI_URL) return null
+	return diagram
+}
+
+// Mermaid needs a real DOM, it is rendered by CodeBlock in the browser
+export const isClientOnlyDiagram = (lang: DiagramLanguage): boolean => lang === 'mermaid'
+
+let vizModule: Promise<import('@viz-js/viz').Viz> | null = null
+
+const loadViz = () => {
+	if (!vizModule) {
+		vizModule = import('@viz-js/viz').then(mod => mod.instance())
+		vizModule.catch(() => (vizModule = null))
+	}
+	return vizModule
+}
+
+async function renderDot(code: string): Promise<string> {
+	const viz = await loadViz()
+	return viz.renderString(code, { format: 'svg' })
+}
+
+// PlantUML has no JS renderer, ask the kroki service for the svg
+async function renderPlantUml(code: string): Promise<string> {
+	const res = await fetch(`${KROKI_URL}/plantuml/svg`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'text/plain' },
+		body: code
+	})
+	if (!res.ok) {
+		const error: any = new Error(`PlantUML render failed: ${res.status}`)
+		error.status = res.status
+		throw error
+	}
+	return res.text()
+}
+
+// the editor preview re-renders on every change, keep finished diagrams around
+const svgCache = new Map<string, string>()
+const MAX_CACHED_DIAGRAMS = 50
+
+const cacheSvg = (key: string, svg: string) => {
+	if (svgCache.size >= MAX_CACHED_DIAGRAMS) svgCache.delete(svgCache.keys().next().value!)
+	svgCache.set(key, svg)
+}
+
+/**
+ * Render a diagram fence to an svg string
+ * Throws when the source is invalid or the renderer is not reachable, callers fall back to the source
+ */
+export async function renderDiagram(lang: DiagramLanguage, code: string): Promise<string> {
+	const key = `${lang}:${code}`
+	const cached = svgCache.get(key)
+	if (cached) return cached
+
+	let svg: string
+	if (lang === 'dot') svg = await renderDot(code)
+	else if (lang === 'plantuml') svg = await renderPlantUml(code)
+	else throw new Error(`${lang} diagrams are rendered in the browser`)
+
+	// strip the xml prolog and doctype, the svg is inlined into html
+	svg = svg.slice(svg.indexOf('<svg'))
+	cacheSvg(key, svg)
+	return svg
+}
+
+let mermaidModule: Promise<typeof import('mermaid').default> | null = null
+
+const loadMermaid = () => {
+	if (!mermaidModule) {
+		mermaidModule = import('mermaid').then(mod => {
+			mod.default.initialize({ startOnLoad: false, theme: 'neutral', securityLevel: 'strict' })
+			return mod.default
+		})
+		mermaidModule.catch(() => (mermaidModule = null))
+	}
+	return mermaidModule
+}
+
+let mermaidCount = 0
+
+/**
+ * Render a mermaid diagram in the browser
+ */
+export async function renderMermaid(code: string): Promise<string> {
+	const key = `mermaid:${code}`
+	const cached = svgCache.get(key)
+	if (cached) return cached
+
+	const mermaid = await loadMermaid()
+	const { svg } = await mermaid.render(`mermaid-diagram-${++mermaidCount}`, code)
+	cacheSvg(key, svg)
+	return svg
+}
@@ -0,0 +1,234 @@
+import katex from 'katex'
+import type { MarkedExtension, Tokens } from 'marked'
+import type { MarkdownFeatures } from '@/app/blog/types'
+
+export type MarkdownPluginName = keyof Required<MarkdownFeatures>
+
+/**
+ * A markdown syntax extension
+ * `create` runs once per render so a plugin can keep state for the document being rendered
+ */
+export type MarkdownPlugin = {
+	name: MarkdownPluginName
+	create: () => {
+		extension: MarkedExtension
+		// runs on the final html, e.g. to append collected content
+		postprocess?: (html: string) => string
+	}
+}
+
+// math is off unless a post asks for it, `$` is too common in plain text
+export const DEFAULT_MARKDOWN_FEATURES: Required<MarkdownFeatures> = {
+	footnotes: true,
+	admonitions: true,
+	math: false,
+	definitionLists: true
+}
+
+const escapeHtml = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const escapeId = (value: string): string => encodeURIComponent(value).replace(/%/g, '')
+
+// GFM footnotes: [^label] references and [^label]: text definitions, listed at the end in order of first use
+const footnotes: MarkdownPlugin = {
+	name: 'footnotes',
+	create: () => {
+		const order: string[] = []
+		const refCounts = new Map<string, number>()
+		const definitions = new Map<string, string>()
+
+		return {
+			extension: {
+				extensions: [
+					{
+						name: 'footnoteDefinition',
+						level: 'block',
+						start: src => src.match(/^\[\^[^\]\s]+\]:/m)?.index,
+						tokenizer(src) {
+							const match = /^\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?: {2,}|\t)[^\n]*)*)(?:\n+|$)/.exec(src)
+							if (!match) return
+							return {
+								type: 'footnoteDefinition',
+								raw: match[0],
+								label: match[1],
+								tokens: this.lexer.inlineTokens(match[2].replace(/\n(?: {2,}|\t)/g, '\n').trim())
+							}
+						},
+						renderer(token) {
+							definitions.set(token.label, this.parser.parseInline(token.tokens || []))
+							return ''
+						}
+					},
+					{
+						name: 'footnoteReference',
+						level: 'inline',
+						start: src => src.indexOf('[^'),
+						tokenizer(src) {
+							const match = /^\[\^([^\]\s]+)\]/.exec(src)
+							if (!match) return
+							return { type: 'footnoteReference', raw: match[0], label: match[1] }
+						},
+						renderer(token) {
+							const label: string = token.label
+							if (!order.includes(label)) order.push(label)
+							const count = (refCounts.get(label) || 0) + 1
+							refCounts.set(label, count)
+
+							const id = escapeId(label)
+							const refId = count === 1 ? `fnref-${id}` : `fnref-${id}-${count}`
+							return `<sup class="footnote-ref"><a href="#fn-${id}" id="${refId}">${order.indexOf(label) + 1}</a></sup>`
+						}
+					}
+				]
+			},
+			postprocess: html => {
+				const items = order
+					.filter(label => definitions.has(label))
+					.map(label => {
+						const id = escapeId(label)
+						return `<li id="fn-${id}">${definitions.get(label)} <a href="#fnref-${id}" class="footnote-backref" aria-label="返回正文">↩</a></li>`
+					})
+				if (items.length === 0) return html
+				return `${html}<section class="footnotes"><hr /><ol>${items.join('')}</ol></section>`
+			}
+		}
+	}
+}
+
+const ADMONITION_TITLES: Record<string, string> = {
+	tip: '提示',
+	note: '注意',
+	info: '信息',
+	warning: '警告',
+	danger: '危险'
+}
+
+// :::tip Optional title
+// content
+// :::
+const admonitions: MarkdownPlugin = {
+	name: 'admonitions',
+	create: () => ({
+		extension: {
+			extensions: [
+				{
+					name: 'admonition',
+					level: 'block',
+					start: src => src.match(/^:::/m)?.index,
+					tokenizer(src) {
+						const match = /^:::[ \t]*(tip|note|info|warning|danger)(?:[ \t]+([^\n]*))?\n([\s\S]*?)\n:::[ \t]*(?:\n+|$)/.exec(src)
+						if (!match) return
+						return {
+							type: 'admonition',
+							raw: match[0],
+							kind: match[1],
+							title: match[2]?.trim() || ADMONITION_TITLES[match[1]],
+							tokens: this.lexer.blockTokens(match[3], [])
+						}
+					},
+					renderer(token) {
+						return `<div class="admonition admonition-${token.kind}"><p class="admonition-title">${escapeHtml(token.title)}</p>${this.parser.parse(token.tokens || [])}</div>\n`
+					}
+				}
+			]
+		}
+	})
+}
+
+const renderTex = (tex: string, displayMode: boolean): string => {
+	try {
+		return katex.renderToString(tex, { displayMode, throwOnError: false, output: 'htmlAndMathml' })
+	} catch {
+		return `<code class="math-error">${escapeHtml(tex)}</code>`
+	}
+}
+
+// $inline$ and $$block$$ math rendered by KaTeX, `$ 5` or `5$` style dollar signs are left alone
+const math: MarkdownPlugin = {
+	name: 'math',
+	create: () => ({
+		extension: {
+			extensions: [
+				{
+					name: 'blockMath',
+					level: 'block',
+					start: src => src.match(/^\$\$/m)?.index,
+					tokenizer(src) {
+						const match = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/.exec(src)
+						if (!match) return
+						return { type: 'blockMath', raw: match[0], text: match[1].trim() }
+					},
+					renderer(token) {
+						return `<div class="math-block">${renderTex(token.text, true)}</div>\n`
+					}
+				},
+				{
+					name: 'inlineMath',
+					level: 'inline',
+					start: src => src.indexOf('$'),
+					tokenizer(src) {
+						const match = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src)
+						if (!match) return
+						return { type: 'inlineMath', raw: match[0], text: match[1] }
+					},
+					renderer(token) {
+						return renderTex(token.text, false)
+					}
+				}
+			]
+		}
+	})
+}
+
+// Term
+// : Definition
+const definitionLists: MarkdownPlugin = {
+	name: 'definitionLists',
+	create: () => ({
+		extension: {
+			extensions: [
+				{
+					name: 'definitionList',
+					level: 'block',
+					start: src => {
+						const index = src.search(/(?:^|\n)[^\n:][^\n]*\n:[ \t]/)
+						return index === -1 ? undefined : src[index] === '\n' ? index + 1 : index
+					},
+					tokenizer(src) {
+						const match = /^(?:[^\n:][^\n]*\n(?::[ \t]+[^\n]*(?:\n|$))+)+/.exec(src)
+						if (!match) return
+
+						const items: Array<{ term: Tokens.Generic[]; definitions: Tokens.Generic[][] }> = []
+						for (const line of match[0].split('\n').filter(Boolean)) {
+							if (/^:[ \t]/.test(line)) {
+								items[items.length - 1]?.definitions.push(this.lexer.inlineTokens(line.replace(/^:[ \t]+/, '')))
+							} else {
+								items.push({ term: this.lexer.inlineTokens(line.trim()), definitions: [] })
+							}
+						}
+
+						return { type: 'definitionList', raw: match[0], items }
+					},
+					renderer(token) {
+						const body = (token.items as Array<{ term: Tokens.Generic[]; definitions: Tokens.Generic[][] }>)
+							.map(
+								item =>
+									`<dt>${this.parser.parseInline(item.term)}</dt>${item.definitions.map(definition => `<dd>${this.parser.parseInline(definition)}</dd>`).join('')}`
+							)
+							.join('')
+						return `<dl>${body}</dl>\n`
+					}
+				}
+			]
+		}
+	})
+}
+
+export const MARKDOWN_PLUGINS: MarkdownPlugin[] = [footnotes, admonitions, math, definitionLists]
+
+/**
+ * Plugins enabled for a post, per-post settings override the defaults
+ */
+export function resolveMarkdownPlugins(features?: MarkdownFeatures): MarkdownPlugin[] {
+	return MARKDOWN_PLUGINS.filter(plugin => features?.[plugin.name] ?? DEFAULT_MARKDOWN_FEATURES[plugin.name])
+}
@@ -1,5 +1,7 @@
-import { marked } from 'marked'
-import type { Tokens } from 'marked'
+import { Marked, type MarkedExtension, type Token, type Tokens } from 'marked'
+import type { MarkdownFeatures } from '@/app/blog/types'
+import { resolveMarkdownPlugins } from '@/lib/markdown-plugins'
+import { getDiagramLanguage, isClientOnlyDiagram, renderDiagram, type DiagramLanguage } from '@/lib/markdown-diagrams'
 
 export type TocItem = { id: string; text: string; level: number }
 
@@ -8,14 +10,46 @@ export interface MarkdownRenderResult {
 	toc: TocItem[]
 }
 
+/**
+ * Heading text to an anchor id, letters and digits of any script are kept
+ */
 export function slugify(text: string): string {
 	return text
+		.normalize('NFKC')
 		.toLowerCase()
-		.replace(/[^a-z0-9\u4e00-\u9fa5\s-]/g, '')
+		.replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '')
 		.trim()
 		.replace(/\s+/g, '-')
+		.replace(/-{2,}/g, '-')
 }
 
+/**
+ * Slugify that never returns the same id twice within one document, repeats get `-1`, `-2` ...
+ */
+export function createSlugger(): (text: string) => string {
+	const used = new Set<string>()
+	return (text: string) => {
+		const base = slugify(text) || 'section'
+		let id = base
+		for (let count = 1; used.has(id); count++) id = `${base}-${count}`
+		used.add(id)
+		return id
+	}
+}
+
+// Visible text of inline tokens, so `**a** [b](c)` becomes `a b`
+const plainText = (tokens: Token[] = []): string =>
+	tokens
+		.map(token => {
+			if ('tokens' in token && token.tokens) return plainText(token.tokens as Token[])
+			if (token.type === 'image' || token.type === 'html') return ''
+			return 'text' in token ? token.text : ''
+		})
+		.join('')
+
+const decodeEntities = (value: string): string =>
+	value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+
 // Lazy load shiki to handle environments where it's not available (e.g., Cloudflare Workers)
 let shikiModule: typeof import('shiki') | null = null
 let shikiLoadAttempted = false
@@ -35,101 +69,139 @@ async function loadShiki() {
 	}
 }
 
-export async function renderMarkdown(markdown: string): Promise<MarkdownRenderResult> {
-	// Pre-process with marked lexer first
-	const tokens = marked.lexer(markdown)
+export type RenderMarkdownOptions = {
+	// per-post syntax extensions, see MarkdownFeatures
+	features?: MarkdownFeatures
+}
 
-	// Extract TOC from parsed tokens (this correctly skips code blocks)
-	const toc: TocItem[] = []
-	function extractHeadings(tokenList: typeof tokens) {
-		for (const token of tokenList) {
-			if (token.type === 'heading' && token.depth <= 3) {
-				// Use the parsed text (markdown syntax like links/code already stripped)
-				const text = token.text
-				const id = slugify(text)
-				toc.push({ id, text, level: token.depth })
-			}
-			// Recursively check nested tokens (e.g., in blockquotes, lists)
-			if ('tokens' in token && token.tokens) {
-				extractHeadings(token.tokens as typeof tokens)
-			}
-		}
-	}
-	extractHeadings(tokens)
+const escapeAttr = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+type CodeBlockMap = Map<string, { html: string; original: string; diagram?: DiagramLanguage }>
+
+const escapeHtml = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// Highlight every fenced code block up front, the renderer is synchronous
+async function highlightCodeBlocks(md: Marked, tokens: Token[]): Promise<CodeBlockMap> {
+	const codeBlockMap: CodeBlockMap = new Map()
+	const codeTokens: Tokens.Code[] = []
+	md.walkTokens(tokens, token => {
+		if (token.type === 'code') codeTokens.push(token as Tokens.Code)
+	})
+	if (codeTokens.length === 0) return codeBlockMap
 
-	// Pre-process code blocks with Shiki
-	const codeBlockMap = new Map<string, { html: string; original: string }>()
 	const shiki = await loadShiki()
 
-	for (const token of tokens) {
-		if (token.type === 'code') {
-			const codeToken = token as Tokens.Code
-			const originalCode = codeToken.text
-			const key = `__SHIKI_CODE_${codeBlockMap.size}__`
-
-			if (shiki) {
-				try {
-					const html = await shiki.codeToHtml(originalCode, {
-						lang: codeToken.lang || 'text',
-						theme: 'one-light'
-					})
-					codeBlockMap.set(key, { html, original: originalCode })
-					codeToken.text = key
-				} catch {
-					// Keep original if highlighting fails
-					codeBlockMap.set(key, { html: '', original: originalCode })
-					codeToken.text = key
-				}
-			} else {
-				// Fallback when shiki is not available
-				codeBlockMap.set(key, { html: '', original: originalCode })
-				codeToken.text = key
+	for (const codeToken of codeTokens) {
+		const originalCode = codeToken.text
+		const key = `__SHIKI_CODE_${codeBlockMap.size}__`
+		codeToken.text = key
+
+		const diagram = getDiagramLanguage(codeToken.lang)
+		if (diagram && isClientOnlyDiagram(diagram)) {
+			codeBlockMap.set(key, { html: '', original: originalCode, diagram })
+			continue
+		}
+		if (diagram) {
+			try {
+				codeBlockMap.set(key, { html: await renderDiagram(diagram, originalCode), original: originalCode, diagram })
+				continue
+			} catch (error) {
+				// Invalid source or renderer unavailable, show it as a normal code block
+				console.warn(`Failed to render ${diagram} diagram:`, error)
 			}
 		}
-	}
 
-	// Render HTML with heading ids
-	const renderer = new marked.Renderer()
+		let html = ''
+		if (shiki) {
+			try {
+				html = await shiki.codeToHtml(originalCode, {
+					lang: codeToken.lang || 'text',
+					theme: 'one-light'
+				})
+			} catch {
+				// Keep original if highlighting fails
+				html = ''
+			}
+		}
 
-	renderer.heading = (token: Tokens.Heading) => {
-		const id = slugify(token.text || '')
-		return `<h${token.depth} id="${id}">${token.text}</h${token.depth}>`
+		codeBlockMap.set(key, { html, original: originalCode })
 	}
 
-	renderer.code = (token: Tokens.Code) => {
-		// Check if this code block was pre-processed
-		const codeData = codeBlockMap.get(token.text)
-		if (codeData) {
-			// Add data-code attribute with original code for copy functionality
-			// Escape HTML entities for attribute value
-			const escapedCode = codeData.original.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#39;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
-			if (codeData.html) {
-				// Shiki highlighted code
-				return `<pre data-code="${escapedCode}">${codeData.html}</pre>`
+	return codeBlockMap
+}
+
+// Renderers every post uses: heading ids, highlighted code blocks and task list items
+function coreExtension(codeBlockMap: CodeBlockMap, headingIds: Map<Tokens.Heading, string>): MarkedExtension {
+	return {
+		renderer: {
+			heading(token: Tokens.Heading) {
+				const id = headingIds.get(token) ?? slugify(token.text || '')
+				const anchor = `<a class="heading-anchor" href="#${escapeAttr(id)}" aria-label="复制链接">#</a>`
+				return `<h${token.depth} id="${escapeAttr(id)}">${this.parser.parseInline(token.tokens)}${anchor}</h${token.depth}>\n`
+			},
+			code(token: Tokens.Code) {
+				const codeData = codeBlockMap.get(token.text)
+				if (codeData) {
+					// Add data-code attribute with original code for copy functionality
+					const escapedCode = escapeAttr(codeData.original)
+					if (codeData.diagram) {
+						// CodeBlock renders the svg, client only diagrams carry their source until rendered
+						return `<pre data-code="${escapedCode}" data-diagram="${codeData.diagram}">${codeData.html || `<code>${escapeHtml(codeData.original)}</code>`}</pre>`
+					}
+					if (codeData.html) {
+						return `<pre data-code="${escapedCode}">${codeData.html}</pre>`
+					}
+					// Fallback for failed highlighting
+					return `<pre data-code="${escapedCode}"><code>${codeData.original}</code></pre>`
+				}
+				// Fallback to default (inline code, not code block)
+				return `<code>${token.text}</code>`
+			},
+			listitem(token: Tokens.ListItem) {
+				// Render inline markdown inside list items (e.g. links, emphasis)
+				const inner = token.tokens ? this.parser.parse(token.tokens) : token.text
+
+				if (token.task) {
+					const checkbox = token.checked ? '<input type="checkbox" checked disabled />' : '<input type="checkbox" disabled />'
+					return `<li class="task-list-item">${checkbox} ${inner}</li>\n`
+				}
+
+				return `<li>${inner}</li>\n`
 			}
-			// Fallback for failed highlighting
-			return `<pre data-code="${escapedCode}"><code>${codeData.original}</code></pre>`
 		}
-		// Fallback to default (inline code, not code block)
-		return `<code>${token.text}</code>`
 	}
+}
 
-	renderer.listitem = (token: Tokens.ListItem) => {
-		// Render inline markdown inside list items (e.g. links, emphasis)
-		const inner = token.tokens ? (marked.parser(token.tokens) as string) : token.text
-
-		if (token.task) {
-			const checkbox = token.checked ? '<input type="checkbox" checked disabled />' : '<input type="checkbox" disabled />'
-			return `<li class="task-list-item">${checkbox} ${inner}</li>\n`
-		}
+/**
+ * Render markdown to html plus its table of contents
+ * Every call builds its own Marked instance, so plugins and their per-document state never leak between renders
+ */
+export async function renderMarkdown(markdown: string, options: RenderMarkdownOptions = {}): Promise<MarkdownRenderResult> {
+	const plugins = resolveMarkdownPlugins(options.features).map(plugin => plugin.create())
 
-		return `<li>${inner}</li>\n`
-	}
+	const md = new Marked(...plugins.map(plugin => plugin.extension))
+	const tokens = md.lexer(markdown)
 
-	marked.use({
-		renderer
+	// Ids for every heading in document order (this correctly skips code blocks), the toc and the renderer share them
+	const toc: TocItem[] = []
+	const headingIds = new Map<Tokens.Heading, string>()
+	const slugger = createSlugger()
+	md.walkTokens(tokens, token => {
+		if (token.type !== 'heading') return
+		const heading = token as Tokens.Heading
+		const text = decodeEntities(plainText(heading.tokens)).trim() || heading.text
+		const id = slugger(text)
+		headingIds.set(heading, id)
+		if (heading.depth <= 3) toc.push({ id, text, level: heading.depth })
 	})
-	const html = (marked.parser(tokens) as string) || ''
+
+	const codeBlockMap = await highlightCodeBlocks(md, tokens)
+	md.use(coreExtension(codeBlockMap, headingIds))
+
+	let html = (md.parser(tokens) as string) || ''
+	for (const plugin of plugins) {
+		if (plugin.postprocess) html = plugin.postprocess(html)
+	}
 
 	return { html, toc }
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+import type { NextRequest } from 'next/server'
+import { createHash } from 'node:crypto'
+import { GITHUB_CONFIG } from '@/consts'
+
+const GITHUB_API = 'https://api.github.com'
+// installation tokens live for an hour, re-check well before that
+const CACHE_TTL = 10 * 60 * 1000
+
+const verified = new Map<string, number>()
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex')
+
+/**
+ * Whether the bearer token of the request is a GitHub App installation token with access to the blog repo
+ * The editor already holds such a token (see getAuthToken), so the site owner needs no separate login
+ */
+export async function isOwnerRequest(req: NextRequest): Promise<boolean> {
+	const token = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+	if (!token) return false
+
+	const key = hashToken(token)
+	const expiresAt = verified.get(key)
+	if (expiresAt && expiresAt > Date.now()) return true
+
+	try {
+		const res = await fetch(`${GITHUB_API}/installation/repositories?per_page=100`, {
+			headers: {
+				Authorization: `Bearer ${token}`,
+				Accept: 'application/vnd.github+json',
+				'X-GitHub-Api-Version': '2022-11-28'
+			},
+			cache: 'no-store'
+		})
+		if (!res.ok) return false
+
+		const data = (await res.json()) as { repositories?: Array<{ full_name: string }> }
+		const fullName = `${GITHUB_CONFIG.OWNER}/${GITHUB_CONFIG.REPO}`.toLowerCase()
+		const allowed = !!data.repositories?.some(repo => repo.full_name.toLowerCase() === fullName)
+		if (allowed) verified.set(key, Date.now() + CACHE_TTL)
+		return allowed
+	} catch (error) {
+		console.error('Failed to verify owner token', error)
+		return false
+	}
+}
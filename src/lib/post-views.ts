@@ -0,0 +1,11 @@
+export const VIEW_PERIODS = [
+	{ key: 'week', label: '本周', days: 7 },
+	{ key: 'month', label: '本月', days: 30 },
+	{ key: 'all', label: '全部', days: null }
+] as const
+
+export type ViewPeriod = (typeof VIEW_PERIODS)[number]['key']
+
+export type PopularItem = { slug: string; count: number }
+
+export const isViewPeriod = (value: unknown): value is ViewPeriod => VIEW_PERIODS.some(period => period.key === value)
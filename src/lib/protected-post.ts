@@ -0,0 +1,67 @@
+import { decrypt } from '@/lib/aes256-util'
+
+// v2: + base64(salt + iv + cipher text), the key is derived from the password with PBKDF2
+// posts published before have base64(iv + cipher text) under a plain SHA-256 key, aes256-util still reads those
+const VERSION_PREFIX = 'v2:'
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+// slow on purpose, the cipher text is public and open to offline guessing
+const PBKDF2_ITERATIONS = 600000
+
+const toBase64 = (bytes: Uint8Array): string => {
+	// chunked, spreading a long post into one call overflows the stack
+	let binary = ''
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+	}
+	return btoa(binary)
+}
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0))
+
+async function deriveKey(password: string, salt: Uint8Array<ArrayBuffer>, usage: KeyUsage): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey'])
+	return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, [
+		usage
+	])
+}
+
+/**
+ * Passwords are compared trimmed everywhere, publish, unlock and edit must agree on it
+ */
+export const normalizePassword = (password: string | undefined): string => password?.trim() ?? ''
+
+/**
+ * index.md of a protected post holds the AES-GCM cipher text of the markdown, config.json and the index only flag it
+ */
+export async function encryptMarkdown(markdown: string, password: string): Promise<string> {
+	const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+	const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+	const key = await deriveKey(normalizePassword(password), salt, 'encrypt')
+	const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(markdown)))
+
+	const result = new Uint8Array(salt.length + iv.length + encrypted.length)
+	result.set(salt, 0)
+	result.set(iv, salt.length)
+	result.set(encrypted, salt.length + iv.length)
+	return VERSION_PREFIX + toBase64(result)
+}
+
+/**
+ * Decrypt a protected post, null when the password is wrong or the text is not ours
+ */
+export async function decryptMarkdown(cipherText: string, password: string): Promise<string | null> {
+	const text = cipherText.trim()
+	try {
+		if (!text.startsWith(VERSION_PREFIX)) return await decrypt(text, normalizePassword(password))
+
+		const data = fromBase64(text.slice(VERSION_PREFIX.length))
+		const salt = data.slice(0, SALT_LENGTH)
+		const iv = data.slice(SALT_LENGTH, SALT_LENGTH + IV_LENGTH)
+		const key = await deriveKey(normalizePassword(password), salt, 'decrypt')
+		const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data.slice(SALT_LENGTH + IV_LENGTH))
+		return new TextDecoder().decode(decrypted)
+	} catch {
+		return null
+	}
+}
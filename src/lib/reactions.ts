@@ -0,0 +1,17 @@
+/**
+ * Reactions a post can receive, the key is what gets stored in blog_reactions
+ */
+export const REACTIONS = [
+	{ key: 'thumbs_up', emoji: '👍', label: '赞' },
+	{ key: 'heart', emoji: '❤️', label: '喜欢' },
+	{ key: 'tada', emoji: '🎉', label: '庆祝' },
+	{ key: 'laugh', emoji: '😄', label: '有趣' },
+	{ key: 'thinking', emoji: '🤔', label: '思考' },
+	{ key: 'eyes', emoji: '👀', label: '关注' }
+] as const
+
+export type ReactionKey = (typeof REACTIONS)[number]['key']
+
+export type ReactionCounts = Partial<Record<ReactionKey, number>>
+
+export const isReactionKey = (value: unknown): value is ReactionKey => REACTIONS.some(reaction => reaction.key === value)
@@ -0,0 +1,69 @@
+import type { BlogIndexItem } from '@/app/blog/types'
+import { tokenize } from '@/lib/search'
+
+const TAG_WEIGHT = 3
+const CATEGORY_WEIGHT = 2
+const SERIES_WEIGHT = 1
+const TEXT_WEIGHT = 4
+
+export type RelatedPost = {
+	item: BlogIndexItem
+	score: number
+}
+
+const toVector = (item: BlogIndexItem): Map<string, number> => {
+	const vector = new Map<string, number>()
+	for (const token of tokenize(`${item.title || ''} ${item.summary || ''}`)) vector.set(token, (vector.get(token) || 0) + 1)
+	return vector
+}
+
+const cosine = (a: Map<string, number>, b: Map<string, number>): number => {
+	if (a.size === 0 || b.size === 0) return 0
+	let dot = 0
+	for (const [token, count] of a) dot += count * (b.get(token) || 0)
+	if (dot === 0) return 0
+	const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, count) => sum + count * count, 0))
+	return dot / (norm(a) * norm(b))
+}
+
+/**
+ * Posts similar to `current`, scored by shared tags (rarer tags count more), category, series and title / summary similarity
+ * When fewer than `min` posts score, the list is topped up with the newest posts
+ */
+export function getRelatedPosts(items: BlogIndexItem[], current: BlogIndexItem, limit = 5, min = 3): RelatedPost[] {
+	const candidates = items.filter(item => item.slug && item.slug !== current.slug)
+
+	const tagFrequency = new Map<string, number>()
+	for (const item of items) {
+		for (const tag of new Set(item.tags || [])) tagFrequency.set(tag, (tagFrequency.get(tag) || 0) + 1)
+	}
+
+	const currentTags = new Set(current.tags || [])
+	const currentVector = toVector(current)
+
+	const scored = candidates
+		.map(item => {
+			let score = 0
+			for (const tag of new Set(item.tags || [])) {
+				if (currentTags.has(tag)) score += TAG_WEIGHT / Math.log2(1 + (tagFrequency.get(tag) || 1))
+			}
+			if (current.category && item.category === current.category) score += CATEGORY_WEIGHT
+			if (current.series?.name && item.series?.name === current.series.name) score += SERIES_WEIGHT
+			score += TEXT_WEIGHT * cosine(currentVector, toVector(item))
+			return { item, score }
+		})
+		.filter(result => result.score > 0)
+		.sort((a, b) => b.score - a.score || new Date(b.item.date).getTime() - new Date(a.item.date).getTime())
+		.slice(0, limit)
+
+	if (scored.length >= min) return scored
+
+	const picked = new Set(scored.map(result => result.item.slug))
+	const newest = candidates
+		.filter(item => !picked.has(item.slug))
+		.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+		.slice(0, min - scored.length)
+		.map(item => ({ item, score: 0 }))
+
+	return [...scored, ...newest]
+}
@@ -0,0 +1,12 @@
+import type { NextRequest } from 'next/server'
+
+/**
+ * Address of the visitor from the proxy headers, null when the request carries none
+ */
+export const readClientIp = (req: NextRequest): string | null => {
+	const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+	if (forwarded) return forwarded
+	const realIp = req.headers.get('x-real-ip')?.trim()
+	if (realIp) return realIp
+	return null
+}
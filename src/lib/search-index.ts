@@ -0,0 +1,71 @@
+'use client'
+
+import { readRepoFile, readTextFileFromRepo, type Changeset } from '@/lib/github-client'
+import { markdownToPlainText } from '@/lib/blog-stats'
+import { isScheduled } from '@/lib/blog-schedule'
+import type { BlogIndexItem, SearchDocument } from '@/app/blog/types'
+
+export const SEARCH_INDEX_PATH = 'public/blogs/search.json'
+
+// keeps search.json at a reasonable size for very long posts
+const MAX_TEXT_LENGTH = 20000
+
+/**
+ * Search text of a post, its plain text cut to MAX_TEXT_LENGTH so search.json stays small
+ */
+function toSearchText(markdown: string): string {
+	return markdownToPlainText(markdown).slice(0, MAX_TEXT_LENGTH)
+}
+
+export function toSearchDocument(item: BlogIndexItem, text: string): SearchDocument {
+	return {
+		slug: item.slug,
+		title: item.title,
+		summary: item.summary,
+		tags: item.tags || [],
+		category: item.category,
+		date: item.date,
+		hidden: item.hidden,
+		publishAt: item.publishAt,
+		text
+	}
+}
+
+async function readSearchIndex(token: string, owner: string, repo: string, ref: string): Promise<SearchDocument[]> {
+	const file = await readRepoFile(token, owner, repo, SEARCH_INDEX_PATH, ref)
+	if (!file) return []
+	try {
+		const list = JSON.parse(file.content)
+		return Array.isArray(list) ? list : []
+	} catch {
+		return []
+	}
+}
+
+/**
+ * Rebuild search.json in the changeset from the final blogs index
+ * Body text comes from index.md in the changeset, then the existing search.json, then the repo at `headSha`
+ * so posts published before the search index existed are filled in on the next commit
+ */
+export async function writeSearchIndex(changeset: Changeset, token: string, owner: string, repo: string, headSha: string, items: BlogIndexItem[]): Promise<void> {
+	const existing = new Map((await readSearchIndex(token, owner, repo, headSha)).map(doc => [doc.slug, doc]))
+
+	const docs = await Promise.all(
+		items.map(async item => {
+			// search.json is public: hidden and scheduled bodies must not leak, a protected body is cipher text anyway
+			if (item.protected || item.hidden || isScheduled(item, Date.now())) return toSearchDocument(item, '')
+
+			const change = changeset.get(`public/blogs/${item.slug}/index.md`)
+			if (change?.type === 'text') return toSearchDocument(item, toSearchText(change.content))
+
+			// an empty cached body may have been withheld while the post was hidden or scheduled
+			const cached = existing.get(item.slug)
+			if (cached?.text) return toSearchDocument(item, cached.text)
+
+			const markdown = await readTextFileFromRepo(token, owner, repo, `public/blogs/${item.slug}/index.md`, headSha)
+			return toSearchDocument(item, toSearchText(markdown || ''))
+		})
+	)
+
+	changeset.writeText(SEARCH_INDEX_PATH, JSON.stringify(docs))
+}
@@ -0,0 +1,153 @@
+import type { SearchDocument } from '@/app/blog/types'
+
+const CJK_RUN = /[぀-ヿ㐀-䶿一-鿿豈-﫿가-힯]+/g
+const WORD = /[\p{L}\p{N}]+/gu
+
+const FIELD_WEIGHTS = {
+	title: 10,
+	tags: 6,
+	category: 4,
+	summary: 3,
+	text: 1
+} as const
+
+type Field = keyof typeof FIELD_WEIGHTS
+
+export type SearchResult = {
+	doc: SearchDocument
+	score: number
+	// query tokens found in the document, used for highlighting
+	tokens: string[]
+}
+
+export type HighlightPart = { text: string; match: boolean }
+
+/**
+ * Split text into search tokens
+ * CJK has no word boundaries, so CJK runs become overlapping bigrams (a lone character stays a unigram),
+ * other scripts are split into lowercase words
+ */
+export function tokenize(input: string): string[] {
+	const text = input.toLowerCase()
+	const tokens: string[] = []
+
+	for (const run of text.match(CJK_RUN) || []) {
+		const chars = Array.from(run)
+		if (chars.length === 1) tokens.push(chars[0])
+		for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1])
+	}
+
+	for (const word of text.replace(CJK_RUN, ' ').match(WORD) || []) {
+		tokens.push(word)
+	}
+
+	return tokens
+}
+
+type IndexedDocument = {
+	doc: SearchDocument
+	fields: Record<Field, string>
+}
+
+const fieldsOf = (doc: SearchDocument): Record<Field, string> => ({
+	title: (doc.title || doc.slug).toLowerCase(),
+	tags: (doc.tags || []).join(' ').toLowerCase(),
+	category: (doc.category || '').toLowerCase(),
+	summary: (doc.summary || '').toLowerCase(),
+	text: (doc.text || '').toLowerCase()
+})
+
+const countOccurrences = (haystack: string, needle: string): number => {
+	let count = 0
+	for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) count++
+	return count
+}
+
+/**
+ * Build a searcher over the documents of search.json
+ * Every query token is matched against each field, title/tag hits weigh more than body hits
+ * and a document has to contain most of the query tokens to be returned
+ */
+export function createSearcher(docs: SearchDocument[]) {
+	const indexed: IndexedDocument[] = docs.map(doc => ({ doc, fields: fieldsOf(doc) }))
+
+	return (query: string, limit = 20): SearchResult[] => {
+		const queryTokens = Array.from(new Set(tokenize(query)))
+		if (queryTokens.length === 0) return []
+
+		const phrase = query.trim().toLowerCase()
+		const required = queryTokens.length <= 2 ? queryTokens.length : Math.ceil(queryTokens.length * 0.6)
+		const results: SearchResult[] = []
+
+		for (const { doc, fields } of indexed) {
+			let score = 0
+			const matched: string[] = []
+
+			for (const token of queryTokens) {
+				let tokenScore = 0
+				for (const field of Object.keys(FIELD_WEIGHTS) as Field[]) {
+					const count = countOccurrences(fields[field], token)
+					// repeated body hits count, but with diminishing returns
+					if (count > 0) tokenScore += FIELD_WEIGHTS[field] * (1 + Math.log(count))
+				}
+				if (tokenScore > 0) {
+					score += tokenScore
+					matched.push(token)
+				}
+			}
+
+			if (matched.length < required) continue
+
+			score *= matched.length / queryTokens.length
+			if (fields.title.includes(phrase)) score += 20
+			else if (fields.text.includes(phrase) || fields.summary.includes(phrase)) score += 5
+
+			results.push({ doc, score, tokens: matched })
+		}
+
+		return results.sort((a, b) => b.score - a.score || (b.doc.date || '').localeCompare(a.doc.date || '')).slice(0, limit)
+	}
+}
+
+const matchMask = (text: string, tokens: string[]): boolean[] => {
+	const lower = text.toLowerCase()
+	const mask = new Array<boolean>(text.length).fill(false)
+	for (const token of tokens) {
+		for (let index = lower.indexOf(token); index !== -1; index = lower.indexOf(token, index + 1)) {
+			mask.fill(true, index, index + token.length)
+		}
+	}
+	return mask
+}
+
+/**
+ * Split text into matched / unmatched parts, overlapping CJK bigrams merge into one highlighted run
+ */
+export function highlight(text: string, tokens: string[]): HighlightPart[] {
+	if (!text) return []
+	const mask = matchMask(text, tokens)
+	const parts: HighlightPart[] = []
+
+	for (let i = 0; i < text.length; ) {
+		let j = i
+		while (j < text.length && mask[j] === mask[i]) j++
+		parts.push({ text: text.slice(i, j), match: mask[i] })
+		i = j
+	}
+
+	return parts
+}
+
+/**
+ * Piece of body text around the first match
+ */
+export function snippet(text: string, tokens: string[], radius = 40): string {
+	if (!text) return ''
+	const lower = text.toLowerCase()
+	const positions = tokens.map(token => lower.indexOf(token)).filter(index => index !== -1)
+	const first = positions.length > 0 ? Math.min(...positions) : 0
+
+	const start = Math.max(0, first - radius)
+	const end = Math.min(text.length, first + radius * 2)
+	return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`
+}
@@ -34,3 +34,12 @@ export function getFileExt(filename: string): string {
 export function rand(a: number, b: number) {
 	return a + Math.random() * (b - a)
 }
+
+// Dynamic route params may arrive percent-encoded for non-ascii segments
+export function decodeRouteParam(value: string): string {
+	try {
+		return decodeURIComponent(value)
+	} catch {
+		return value
+	}
+}
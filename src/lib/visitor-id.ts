@@ -0,0 +1,74 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+import { readClientIp } from '@/lib/request-ip'
+
+const VISITOR_COOKIE = 'blog_visitor'
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+const HASH_LENGTH = 32
+
+export type Visitor = {
+	// dedupe keys, `h:` hash of ip + user agent (`u:` user agent only without an ip) and `c:` visitor cookie, any match counts as the same visitor
+	keys: string[]
+	// freshly issued cookie value, to be set on the response
+	issuedCookie: string | null
+}
+
+let fallbackSecret: string | null = null
+
+const getSecret = (): string => {
+	if (process.env.VISITOR_SECRET) return process.env.VISITOR_SECRET
+	if (!fallbackSecret) {
+		// hashes and cookies stop matching on every restart, fine for development only
+		console.warn('VISITOR_SECRET is not set, using a random secret for this process')
+		fallbackSecret = randomBytes(32).toString('hex')
+	}
+	return fallbackSecret
+}
+
+const hmac = (key: string, value: string): string => createHmac('sha256', key).update(value).digest('hex')
+
+// the salt changes every UTC day, so hashes of different days cannot be linked
+const dailySalt = (): string => hmac(getSecret(), `visitor:${new Date().toISOString().slice(0, 10)}`)
+
+const signCookie = (id: string): string => `${id}.${hmac(getSecret(), `cookie:${id}`).slice(0, HASH_LENGTH)}`
+
+const verifyCookie = (value: string | undefined): string | null => {
+	const [id, signature] = value?.split('.') ?? []
+	if (!id || !signature) return null
+	const expected = signCookie(id).split('.')[1]
+	if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return null
+	return id
+}
+
+/**
+ * Identify the visitor without keeping the ip: a salted, daily rotating hash of ip + user agent plus a signed anonymous cookie
+ * Requests without proxy headers fall back to a hash of the user agent, so dropping the cookie does not reset their limits
+ */
+export function resolveVisitor(req: NextRequest): Visitor {
+	let cookieId = verifyCookie(req.cookies.get(VISITOR_COOKIE)?.value)
+	let issuedCookie: string | null = null
+	if (!cookieId) {
+		cookieId = randomBytes(16).toString('base64url')
+		issuedCookie = signCookie(cookieId)
+	}
+
+	const userAgent = req.headers.get('user-agent') ?? ''
+	const ip = readClientIp(req)
+	const networkKey = ip ? `h:${hmac(dailySalt(), `${ip}\n${userAgent}`).slice(0, HASH_LENGTH)}` : `u:${hmac(dailySalt(), userAgent).slice(0, HASH_LENGTH)}`
+	const keys = [networkKey, `c:${cookieId}`]
+
+	return { keys, issuedCookie }
+}
+
+export function setVisitorCookie<T extends NextResponse>(res: T, visitor: Visitor): T {
+	if (visitor.issuedCookie) {
+		res.cookies.set(VISITOR_COOKIE, visitor.issuedCookie, {
+			httpOnly: true,
+			sameSite: 'lax',
+			secure: process.env.NODE_ENV === 'production',
+			path: '/',
+			maxAge: COOKIE_MAX_AGE
+		})
+	}
+	return res
+}